@@ -0,0 +1,73 @@
+// Copy the MediaPipe WASM runtime from node_modules and download the pose
+// models into public/mediapipe, so the app serves pinned copies of both
+// instead of loading them from third-party CDNs at runtime.
+//
+// Usage: npm run fetch:mediapipe (runs automatically before dev and build)
+
+import { copyFile, mkdir, readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+
+const WASM_SOURCE_DIR = fileURLToPath(new URL('../node_modules/@mediapipe/tasks-vision/wasm/', import.meta.url));
+const OUTPUT_DIR = fileURLToPath(new URL('../public/mediapipe/', import.meta.url));
+
+// Versioned model URLs - bump the path to upgrade
+const MODEL_BASE_URL = 'https://storage.googleapis.com/mediapipe-models/pose_landmarker';
+const MODELS = Object.fromEntries(
+  ['lite', 'full', 'heavy'].map((variant) => [
+    `pose_landmarker_${variant}.task`,
+    `${MODEL_BASE_URL}/pose_landmarker_${variant}/float16/1/pose_landmarker_${variant}.task`,
+  ])
+);
+
+async function exists(path) {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function copyWasm() {
+  const wasmDir = `${OUTPUT_DIR}wasm/`;
+  await mkdir(wasmDir, { recursive: true });
+
+  // Always copy so the runtime matches the installed @mediapipe/tasks-vision
+  const files = await readdir(WASM_SOURCE_DIR);
+  for (const file of files) {
+    await copyFile(`${WASM_SOURCE_DIR}${file}`, `${wasmDir}${file}`);
+
+    // The pose worker is a module worker, where MediaPipe's importScripts()
+    // loading doesn't exist - give it an ES module version of each loader
+    if (file.endsWith('_internal.js')) {
+      const loader = await readFile(`${WASM_SOURCE_DIR}${file}`, 'utf8');
+      await writeFile(`${wasmDir}${file.replace(/\.js$/, '.mjs')}`, `${loader}\nexport default ModuleFactory;\n`);
+    }
+  }
+  console.log(`Copied ${files.length} WASM files`);
+}
+
+async function downloadModels() {
+  const modelDir = `${OUTPUT_DIR}models/`;
+  await mkdir(modelDir, { recursive: true });
+
+  for (const [name, url] of Object.entries(MODELS)) {
+    const target = `${modelDir}${name}`;
+    if (await exists(target)) continue; // Model URLs are versioned, so a cached copy stays valid
+
+    console.log(`Downloading ${name}...`);
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to download ${url}: ${response.status} ${response.statusText}`);
+    }
+    await writeFile(target, Buffer.from(await response.arrayBuffer()));
+  }
+}
+
+try {
+  await copyWasm();
+  await downloadModels();
+} catch (err) {
+  console.error('Failed to prepare MediaPipe assets:', err);
+  process.exit(1);
+}
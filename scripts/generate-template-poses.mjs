@@ -0,0 +1,136 @@
+// Analyze the built-in /poses images with MediaPipe and write their landmarks
+// to src/data/templateLandmarks.generated.ts, so templates can be matched
+// without running image analysis in the browser. The output isn't committed.
+//
+// Usage: npm run generate:poses (also runs before dev and build; skipped while
+// the output is newer than the images and templates - pass --force to rerun)
+//
+// MediaPipe only runs in a browser, so this serves the app with Vite and
+// drives analyzeImagePose() in headless Chrome via Puppeteer.
+
+import { readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { createServer } from 'vite';
+import puppeteer from 'puppeteer';
+
+const ROOT = fileURLToPath(new URL('..', import.meta.url));
+const OUTPUT_PATH = fileURLToPath(new URL('../src/data/templateLandmarks.generated.ts', import.meta.url));
+const POSES_DIR = fileURLToPath(new URL('../public/poses/', import.meta.url));
+const INPUT_PATHS = [
+  fileURLToPath(import.meta.url),
+  fileURLToPath(new URL('../src/data/poseTemplates.ts', import.meta.url)),
+];
+const PRECISION = 5;
+const LANDMARK_COUNT = 33; // MediaPipe pose landmarks per body
+
+const round = (value) => (value === undefined ? undefined : Number(value.toFixed(PRECISION)));
+
+function formatOutput(posesById) {
+  const entries = Object.entries(posesById).map(([id, { aspect, people }]) => {
+    const bodies = people.map((landmarks) => {
+      const points = landmarks
+        .map((lm) => `        { x: ${round(lm.x)}, y: ${round(lm.y)}, z: ${round(lm.z)}, visibility: ${round(lm.visibility)} },`)
+        .join('\n');
+      return `      [\n${points}\n      ],`;
+    });
+    return `  '${id}': {\n    aspect: ${round(aspect)},\n    people: [\n${bodies.join('\n')}\n    ],\n  },`;
+  });
+
+  return `// Generated by scripts/generate-template-poses.mjs - do not edit or commit.
+// \`npm run dev\` and \`npm run build\` regenerate it when images in /poses change.
+import { type Landmark } from '../types/pose';
+
+// Image width/height and raw MediaPipe landmarks (0-1 relative to the image) for
+// each person from left to right, keyed by template id
+export const templateLandmarks: Record<string, { aspect: number; people: Landmark[][] }> = {
+${entries.join('\n')}
+};
+`;
+}
+
+async function modifiedAt(path) {
+  try {
+    return (await stat(path)).mtimeMs;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether the output was written after every template image and definition last changed
+ */
+async function isUpToDate() {
+  const outputTime = await modifiedAt(OUTPUT_PATH);
+  if (outputTime === null) return false;
+  // The empty placeholder written below (or left by an older checkout) never counts
+  if (!(await readFile(OUTPUT_PATH, 'utf8')).includes('people:')) return false;
+
+  const images = (await readdir(POSES_DIR)).map((file) => `${POSES_DIR}${file}`);
+  const inputTimes = await Promise.all([...images, ...INPUT_PATHS].map(modifiedAt));
+  return inputTimes.every((time) => time !== null && time < outputTime);
+}
+
+if (!process.argv.includes('--force') && await isUpToDate()) {
+  console.log('Template landmarks are up to date');
+  process.exit(0);
+}
+
+// The app imports the output, so a fresh checkout needs an empty one to load at all
+if ((await modifiedAt(OUTPUT_PATH)) === null) {
+  await writeFile(OUTPUT_PATH, formatOutput({}));
+}
+
+const server = await createServer({
+  root: ROOT,
+  logLevel: 'error',
+  server: { port: 0, host: '127.0.0.1' },
+});
+
+let browser;
+try {
+  await server.listen();
+  const baseUrl = server.resolvedUrls.local[0];
+
+  // CI runners don't allow Chrome's sandbox
+  const sandboxArgs = process.env.CI ? ['--no-sandbox'] : [];
+  browser = await puppeteer.launch({ args: ['--use-gl=swiftshader', ...sandboxArgs] });
+  const page = await browser.newPage();
+  await page.goto(baseUrl, { waitUntil: 'domcontentloaded' });
+
+  const { posesById, failed } = await page.evaluate(async () => {
+    const { poseTemplates } = await import('/src/data/poseTemplates.ts');
+    const { analyzeImagePose } = await import('/src/utils/poseUtils.ts');
+
+    const posesById = {};
+    const failed = [];
+    for (const template of poseTemplates) {
+      // The most accurate model, on the CPU since headless Chrome has no real GPU
+      const result = await analyzeImagePose(template.imagePath, { model: 'heavy', delegate: 'CPU' });
+      if (result) {
+        posesById[template.id] = {
+          aspect: result.imageAspect,
+          people: result.people.map((person) => person.landmarks),
+        };
+      } else {
+        failed.push(template.id);
+      }
+    }
+    return { posesById, failed };
+  });
+
+  if (failed.length > 0) {
+    throw new Error(`No pose detected for: ${failed.join(', ')}`);
+  }
+  const incomplete = Object.entries(posesById)
+    .filter(([, { people }]) => people.some((landmarks) => landmarks.length !== LANDMARK_COUNT))
+    .map(([id]) => id);
+  if (incomplete.length > 0) {
+    throw new Error(`Expected ${LANDMARK_COUNT} landmarks per person for: ${incomplete.join(', ')}`);
+  }
+
+  await writeFile(OUTPUT_PATH, formatOutput(posesById));
+  console.log(`Wrote landmarks for ${Object.keys(posesById).length} templates to ${OUTPUT_PATH}`);
+} finally {
+  await browser?.close();
+  await server.close();
+}
@@ -1,39 +1,200 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { CameraView } from './components/CameraView';
 import { HUDOverlay } from './components/HUDOverlay';
 import { Gallery } from './components/Gallery';
 import { PoseGallery } from './components/PoseGallery';
+import { TemplateEditor } from './components/TemplateEditor';
+import { CaptureSettings } from './components/CaptureSettings';
+import { UpdatePrompt } from './components/UpdatePrompt';
 import { usePoseLandmarker } from './hooks/usePoseLandmarker';
-import { poseTemplates, type PoseTemplate } from './data/poseTemplates';
+import {
+  type AutoCaptureSettings,
+  useAutoCapture,
+  loadAutoCaptureSettings,
+  saveAutoCaptureSettings,
+} from './hooks/useAutoCapture';
+import { useDeviceOrientation } from './hooks/useDeviceOrientation';
+import {
+  poseTemplates,
+  getMultiPersonPeople,
+  getTemplateFramingTarget,
+  type PoseTemplate,
+} from './data/poseTemplates';
 import {
   normalizePose,
   computeCenterOffset,
   computeDistanceHint,
   computeTilt,
   computePoseMatch,
+  computeAngleMatch,
+  getPoseCorrections,
+  mirrorPose,
+  mirrorLandmarks,
+  assignPeopleToSlots,
   analyzeImagePose,
+  isCentered,
+  getGroupBoundingBox,
+  getCutOffEdges,
+  getCropWarnings,
+  computeVerticalFraming,
+  computeGroupCenterOffset,
+  computeGroupDistanceHint,
+  measureFraming,
+  computeTargetCenterOffset,
+  computeTargetDistanceHint,
+  computeTargetVerticalHint,
+  fitFramingTarget,
+  computeGroupTilt,
+  TILT_TOLERANCE_DEGREES,
+  DEVICE_TILT_TOLERANCE_DEGREES,
 } from './utils/poseUtils';
-import { type PoseGuidance, type Landmark } from './types/pose';
-import { type PhotoRecord, savePhoto, getAllPhotos } from './utils/indexedDB';
+import {
+  type PoseGuidance,
+  type Landmark,
+  type NormalizedPose,
+  type TemplatePerson,
+  type PersonPoseMatch,
+  type VerticalHint,
+  type VerticalGuidance,
+  type FramingTarget,
+} from './types/pose';
+import {
+  type CaptureFormat,
+  type OutputMimeType,
+  loadCaptureFormat,
+  saveCaptureFormat,
+  getAspectRatio,
+} from './utils/captureFormat';
+import {
+  createFrameMapping,
+  getPreviewCropRect,
+  getSourceCropRect,
+  fitRectContain,
+  landmarksToCrop,
+} from './utils/coordinateMapping';
+import {
+  type PhotoRecord,
+  savePhoto,
+  getAllPhotos,
+  revokePhotoURL,
+  saveTemplate,
+  getAllTemplates,
+  deleteTemplate,
+  revokeTemplateURL,
+} from './utils/indexedDB';
+import { captureStill } from './utils/stillCapture';
+import {
+  type DetectionSettings,
+  loadDetectionSettings,
+  MAX_GROUP_SIZE,
+  saveDetectionSettings,
+} from './utils/mediapipeConfig';
 
 type View = 'camera' | 'gallery';
 
+const VERTICAL_HINT_MESSAGES: Record<Exclude<VerticalHint, 'good'>, string> = {
+  'tilt-up': 'Tilt camera up.',
+  'tilt-down': 'Tilt camera down.',
+  'raise-phone': 'Raise the phone.',
+  'lower-phone': 'Lower the phone.',
+};
+
 // Cache for analyzed template results
 const templateAnalysisCache = new Map<string, {
   landmarks: Landmark[];
-  normalizedPose: any;
+  normalizedPose: NormalizedPose;
+  people?: TemplatePerson[];
+  framingTarget?: FramingTarget;
+  imageAspect: number;
 }>();
 
+/**
+ * Score the live pose against one orientation of a template.
+ * `videoAspect` is the camera frame's width/height.
+ */
+function matchTemplatePose(
+  normalizedPose: NormalizedPose,
+  templatePose: NormalizedPose,
+  template: PoseTemplate,
+  videoAspect: number
+) {
+  const match = computePoseMatch(normalizedPose, templatePose, template.keyLandmarks);
+  const templateAspect = template.imageAspect ?? videoAspect;
+  const angleMatch = computeAngleMatch(
+    normalizedPose.landmarks,
+    templatePose.landmarks,
+    template.angleWeights,
+    videoAspect,
+    templateAspect
+  );
+
+  return {
+    poseMatch: template.matchMode === 'angle' ? angleMatch : match.score,
+    positionMatch: match.score,
+    angleMatch,
+    corrections: getPoseCorrections(match, normalizedPose, templatePose, template.keyLandmarks, videoAspect, templateAspect),
+  };
+}
+
+/**
+ * Score a group against one orientation of a multi-person template. People are
+ * assigned to template slots by where they stand; corrections come from `subject`.
+ */
+function matchGroupTemplate(
+  people: Landmark[][],
+  subject: number,
+  template: PoseTemplate,
+  slots: TemplatePerson[],
+  mirrored: boolean,
+  videoAspect: number
+) {
+  // Mirroring the raw landmarks flips the group layout as well as each pose
+  const slotLandmarks = slots.map((slot) => (mirrored ? mirrorLandmarks(slot.landmarks) : slot.landmarks));
+  const assignment = assignPeopleToSlots(people, slotLandmarks);
+
+  const matches = assignment.flatMap((slot, person) => {
+    if (slot < 0) return [];
+    const slotPose = mirrored ? mirrorPose(slots[slot].normalizedPose) : slots[slot].normalizedPose;
+    return [{ person, slot, ...matchTemplatePose(normalizePose(people[person]), slotPose, template, videoAspect) }];
+  });
+
+  // Empty slots count as zero, so the score only peaks once everyone is in place
+  const average = (score: (match: typeof matches[number]) => number) =>
+    matches.reduce((sum, match) => sum + score(match), 0) / slots.length;
+  const personMatches: PersonPoseMatch[] = matches.map(({ person, slot, poseMatch }) => ({ person, slot, poseMatch }));
+
+  return {
+    poseMatch: average((match) => match.poseMatch),
+    positionMatch: average((match) => match.positionMatch),
+    angleMatch: average((match) => match.angleMatch),
+    corrections: matches.find((match) => match.person === subject)?.corrections ?? [],
+    personMatches,
+  };
+}
+
 function App() {
   const [view, setView] = useState<View>('camera');
   const [selectedTemplate, setSelectedTemplate] = useState<PoseTemplate>(poseTemplates[0]);
   const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null);
+  const [isCameraMirrored, setIsCameraMirrored] = useState(false);
   const [photos, setPhotos] = useState<PhotoRecord[]>([]);
   const [guidance, setGuidance] = useState<PoseGuidance | null>(null);
   const [viewportSize, setViewportSize] = useState({ width: window.innerWidth, height: window.innerHeight });
   const [isCapturing, setIsCapturing] = useState(false);
   const [showSkeleton, setShowSkeleton] = useState(false);
+  const [autoCaptureEnabled, setAutoCaptureEnabled] = useState(false);
+  const [groupMode, setGroupMode] = useState(false);
+  // Group mode from before a multi-person template turned it on, restored when leaving it
+  const groupModeBeforeTemplateRef = useRef<boolean | null>(null);
+  const [selectedPerson, setSelectedPerson] = useState(0);
+  const [captureFormat, setCaptureFormat] = useState<CaptureFormat>(loadCaptureFormat);
+  const [showCaptureSettings, setShowCaptureSettings] = useState(false);
+  const [autoCaptureSettings, setAutoCaptureSettings] = useState<AutoCaptureSettings>(loadAutoCaptureSettings);
+  const [detectionSettings, setDetectionSettings] = useState<DetectionSettings>(loadDetectionSettings);
   const [showPoseGallery, setShowPoseGallery] = useState(false);
+  const [customTemplates, setCustomTemplates] = useState<PoseTemplate[]>([]);
+  // null = closed, 'new' = creating, otherwise the custom template being edited
+  const [templateEditorTarget, setTemplateEditorTarget] = useState<PoseTemplate | 'new' | null>(null);
   const [selectedTemplateImage, setSelectedTemplateImage] = useState<string | null>(null);
   const [templateLandmarks, setTemplateLandmarks] = useState<Landmark[] | null>(null);
   const [showTemplateSkeleton, setShowTemplateSkeleton] = useState(false);
@@ -41,11 +202,34 @@ function App() {
   const [templateImageDimensions, setTemplateImageDimensions] = useState<{ width: number; height: number } | null>(null);
   const [templateImageBounds, setTemplateImageBounds] = useState<{ top: number; left: number; width: number; height: number } | null>(null);
 
-  const { latestDetection, hasPerson, isLoading: isPoseLoading } = usePoseLandmarker(
+  const { latestDetection, hasPerson, isLoading: isPoseLoading, stats: trackingStats } = usePoseLandmarker(
     videoElement,
-    view === 'camera'
+    view === 'camera',
+    detectionSettings.video,
+    groupMode ? MAX_GROUP_SIZE : 1
   );
 
+  const {
+    roll: deviceTilt,
+    permission: orientationPermission,
+    requestPermission: requestOrientationPermission,
+  } = useDeviceOrientation(view === 'camera');
+
+  // Number people left to right as they appear on screen, which flips with a mirrored preview
+  const people = useMemo(() => {
+    const detected = latestDetection?.people ?? [];
+    return isCameraMirrored ? [...detected].reverse() : detected;
+  }, [latestDetection, isCameraMirrored]);
+  // Fall back to the last person when the selected one leaves the frame
+  const activePerson = Math.min(selectedPerson, Math.max(0, people.length - 1));
+  const subjectLandmarks = groupMode ? people[activePerson] : latestDetection?.landmarks;
+  // The subject's unsmoothed landmarks, saved with photos for re-scoring later
+  const rawSubjectLandmarks = useMemo(() => {
+    const detected = latestDetection?.rawPeople ?? [];
+    if (!groupMode) return detected[0];
+    return (isCameraMirrored ? [...detected].reverse() : detected)[activePerson];
+  }, [latestDetection, isCameraMirrored, groupMode, activePerson]);
+
   // Update viewport size on resize (debounced for mobile performance)
   useEffect(() => {
     let resizeTimeout: ReturnType<typeof setTimeout>;
@@ -64,9 +248,41 @@ function App() {
 
   // Load photos from IndexedDB on mount
   useEffect(() => {
-    getAllPhotos().then(setPhotos).catch(console.error);
+    let isMounted = true;
+    getAllPhotos()
+      .then((loaded) => {
+        if (isMounted) {
+          setPhotos(loaded);
+        } else {
+          // Unmounted before load finished - release the URLs we just created
+          loaded.forEach(revokePhotoURL);
+        }
+      })
+      .catch(console.error);
+    return () => {
+      isMounted = false;
+    };
   }, []);
 
+  // Load user-created templates from IndexedDB on mount
+  useEffect(() => {
+    let isMounted = true;
+    getAllTemplates()
+      .then((loaded) => {
+        if (isMounted) {
+          setCustomTemplates(loaded);
+        } else {
+          loaded.forEach(revokeTemplateURL);
+        }
+      })
+      .catch(console.error);
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  const allTemplates = [...poseTemplates, ...customTemplates];
+
   // Load template image to get natural dimensions
   useEffect(() => {
     if (selectedTemplateImage) {
@@ -84,45 +300,43 @@ function App() {
     }
   }, [selectedTemplateImage]);
 
-  // Calculate template image bounds when dimensions or viewport change
+  // Calculate template image bounds when dimensions, viewport or capture format change
   useEffect(() => {
     if (templateImageDimensions && showSkeleton && selectedTemplateImage) {
-      const imgAspect = templateImageDimensions.width / templateImageDimensions.height; // Should be 4/5 = 0.8
-      const viewportAspect = viewportSize.width / viewportSize.height;
-
-      let drawWidth, drawHeight, drawX, drawY;
-
-      if (imgAspect > viewportAspect) {
-        // Image is wider relative to viewport - fit to width, center vertically
-        drawWidth = viewportSize.width;
-        drawHeight = viewportSize.width / imgAspect;
-        drawX = 0;
-        drawY = (viewportSize.height - drawHeight) / 2;
-      } else {
-        // Image is taller relative to viewport - fit to height, center horizontally
-        drawHeight = viewportSize.height;
-        drawWidth = viewportSize.height * imgAspect;
-        drawX = (viewportSize.width - drawWidth) / 2;
-        drawY = 0;
-      }
+      // The template is fitted inside the on-screen capture frame
+      const frame = getPreviewCropRect(createFrameMapping(
+        videoElement?.videoWidth ?? 0,
+        videoElement?.videoHeight ?? 0,
+        viewportSize.width,
+        viewportSize.height,
+        getAspectRatio(captureFormat.aspectRatio)
+      ));
+      const imgAspect = templateImageDimensions.width / templateImageDimensions.height;
+      const bounds = fitRectContain(imgAspect, frame);
 
       setTemplateImageBounds({
-        top: drawY,
-        left: drawX,
-        width: drawWidth,
-        height: drawHeight,
+        top: bounds.y,
+        left: bounds.x,
+        width: bounds.width,
+        height: bounds.height,
       });
     } else {
       setTemplateImageBounds(null);
     }
-  }, [templateImageDimensions, viewportSize, showSkeleton, selectedTemplateImage]);
+  }, [templateImageDimensions, viewportSize, showSkeleton, selectedTemplateImage, videoElement, captureFormat]);
 
   // Set initial template image on mount, defer analysis for mobile stability
   useEffect(() => {
     const initialTemplate = poseTemplates[0];
     if (initialTemplate.imagePath) {
       setSelectedTemplateImage(initialTemplate.imagePath);
-      
+
+      // Precomputed landmarks make runtime analysis unnecessary
+      if (initialTemplate.landmarks) {
+        setTemplateLandmarks(initialTemplate.landmarks);
+        return;
+      }
+
       // Defer analysis to prevent crashes on mobile - wait 2-3 seconds after page load
       const analysisDelay = 2500; // 2.5 seconds
       const timeoutId = setTimeout(() => {
@@ -132,6 +346,9 @@ function App() {
           const updatedTemplate: PoseTemplate = {
             ...initialTemplate,
             normalizedPose: cached.normalizedPose,
+            people: cached.people,
+            framingTarget: cached.framingTarget,
+            imageAspect: cached.imageAspect,
           };
           setSelectedTemplate(updatedTemplate);
           setTemplateLandmarks(cached.landmarks);
@@ -140,18 +357,24 @@ function App() {
 
         // Analyze initial template in background
         setIsAnalyzingTemplate(true);
-        analyzeImagePose(initialTemplate.imagePath)
+        analyzeImagePose(initialTemplate.imagePath, loadDetectionSettings().image)
           .then((result) => {
             if (result) {
               // Cache the result
               templateAnalysisCache.set(initialTemplate.id, {
                 landmarks: result.landmarks,
                 normalizedPose: result.normalizedPose,
+                people: getMultiPersonPeople(result.people),
+                framingTarget: getTemplateFramingTarget(result.people),
+                imageAspect: result.imageAspect,
               });
               
               const updatedTemplate: PoseTemplate = {
                 ...initialTemplate,
                 normalizedPose: result.normalizedPose,
+                people: getMultiPersonPeople(result.people),
+                framingTarget: getTemplateFramingTarget(result.people),
+                imageAspect: result.imageAspect,
               };
               setSelectedTemplate(updatedTemplate);
               setTemplateLandmarks(result.landmarks);
@@ -179,12 +402,25 @@ function App() {
     setSelectedTemplate(template);
     setSelectedTemplateImage(template.imagePath);
 
+    // Precomputed and custom templates already carry their landmarks
+    if (template.landmarks) {
+      setTemplateLandmarks(template.landmarks);
+      setShowTemplateSkeleton(true);
+      setTimeout(() => {
+        setShowTemplateSkeleton(false);
+      }, 1000);
+      return;
+    }
+
     // Check cache first
     const cached = templateAnalysisCache.get(template.id);
     if (cached) {
       const updatedTemplate: PoseTemplate = {
         ...template,
         normalizedPose: cached.normalizedPose,
+        people: cached.people,
+        framingTarget: cached.framingTarget,
+        imageAspect: cached.imageAspect,
       };
       setSelectedTemplate(updatedTemplate);
       setTemplateLandmarks(cached.landmarks);
@@ -200,19 +436,25 @@ function App() {
     // Analyze the template image with MediaPipe
     setIsAnalyzingTemplate(true);
     try {
-      const result = await analyzeImagePose(template.imagePath);
+      const result = await analyzeImagePose(template.imagePath, detectionSettings.image);
       
       if (result) {
         // Cache the result
         templateAnalysisCache.set(template.id, {
           landmarks: result.landmarks,
           normalizedPose: result.normalizedPose,
+          people: getMultiPersonPeople(result.people),
+          framingTarget: getTemplateFramingTarget(result.people),
+          imageAspect: result.imageAspect,
         });
 
         // Update template with analyzed pose
         const updatedTemplate: PoseTemplate = {
           ...template,
           normalizedPose: result.normalizedPose,
+          people: getMultiPersonPeople(result.people),
+          framingTarget: getTemplateFramingTarget(result.people),
+          imageAspect: result.imageAspect,
         };
         setSelectedTemplate(updatedTemplate);
         setTemplateLandmarks(result.landmarks);
@@ -232,77 +474,171 @@ function App() {
     } finally {
       setIsAnalyzingTemplate(false);
     }
-  }, [isAnalyzingTemplate]);
+  }, [isAnalyzingTemplate, detectionSettings.image]);
+
+  // Multi-person templates need everyone tracked
+  useEffect(() => {
+    if (selectedTemplate.people) {
+      setGroupMode((current) => {
+        groupModeBeforeTemplateRef.current ??= current;
+        return true;
+      });
+    } else if (groupModeBeforeTemplateRef.current !== null) {
+      setGroupMode(groupModeBeforeTemplateRef.current);
+      groupModeBeforeTemplateRef.current = null;
+    }
+  }, [selectedTemplate]);
 
   // Compute guidance from pose detection
   useEffect(() => {
-    if (!latestDetection || !videoElement || !selectedTemplate) {
+    if (!subjectLandmarks || !videoElement || !selectedTemplate) {
       setGuidance(null);
       return;
     }
 
-    const landmarks = latestDetection.landmarks;
+    const landmarks = subjectLandmarks;
     const normalizedPose = normalizePose(landmarks);
     const templatePose = selectedTemplate.normalizedPose;
 
-    const centerOffset = computeCenterOffset(landmarks, viewportSize.width);
-    const distance = computeDistanceHint(landmarks, viewportSize.height);
-    const tilt = computeTilt(landmarks);
-    const poseMatch = computePoseMatch(normalizedPose, templatePose, selectedTemplate.keyLandmarks);
+    // In group mode framing covers everyone, while the pose match uses the selected person.
+    // Framing is judged against the output crop - what the photo will show - not the screen
+    const videoAspect = videoElement.videoHeight ? videoElement.videoWidth / videoElement.videoHeight : 1;
+    const { crop, cropAspect } = createFrameMapping(
+      videoElement.videoWidth,
+      videoElement.videoHeight,
+      viewportSize.width,
+      viewportSize.height,
+      getAspectRatio(captureFormat.aspectRatio)
+    );
+
+    const bounds = groupMode ? getGroupBoundingBox(people.map((person) => landmarksToCrop(person, crop))) : null;
+    const group = bounds ? {
+      personCount: people.length,
+      selectedPerson: activePerson,
+      bounds,
+      cutOff: people
+        .map((person, index) => ({ person: index, edges: getCutOffEdges(person, crop) }))
+        .filter((entry) => entry.edges.length > 0),
+    } : undefined;
+
+    const rawTilt = groupMode ? computeGroupTilt(people, videoAspect) : computeTilt(landmarks, videoAspect);
+    const tilt = rawTilt * (isCameraMirrored ? -1 : 1);
+    // Multi-person templates score everyone; otherwise only the subject is matched
+    const templatePeople = groupMode ? selectedTemplate.people : undefined;
+    // Orientations are as seen on screen, where the template overlay is drawn unflipped. On a
+    // mirrored (front camera) preview, lining up with it gives raw landmarks that mirror the template.
+    const isFlippedInVideo = (isMirrored: boolean) => isMirrored !== isCameraMirrored;
+    const matchOrientation = (isMirrored: boolean) => {
+      const flip = isFlippedInVideo(isMirrored);
+      return templatePeople
+        ? matchGroupTemplate(people, activePerson, selectedTemplate, templatePeople, flip, videoAspect)
+        : {
+          ...matchTemplatePose(normalizedPose, flip ? mirrorPose(templatePose) : templatePose, selectedTemplate, videoAspect),
+          personMatches: undefined,
+        };
+    };
+    const original = matchOrientation(false);
+    // Asymmetric templates may also be done as their mirror image
+    const mirrored = selectedTemplate.allowMirror ? matchOrientation(true) : null;
+    const best = mirrored && mirrored.poseMatch > original.poseMatch ? mirrored : original;
 
-    setGuidance({
+    // Aim for the template's own framing when its reference image gives one, fitted to the
+    // output aspect ratio and flipped along with the pose. The target frames everyone in the
+    // image, so only use it when tracking the same kind of subject (a group or one person).
+    const sameSubject = !!selectedTemplate.people === groupMode;
+    const fittedTarget = sameSubject && selectedTemplate.framingTarget
+      ? fitFramingTarget(selectedTemplate.framingTarget, selectedTemplate.imageAspect ?? cropAspect, cropAspect)
+      : undefined;
+    const target = fittedTarget && isFlippedInVideo(best === mirrored)
+      ? { ...fittedTarget, centerX: 1 - fittedTarget.centerX }
+      : fittedTarget;
+    const measured = target ? measureFraming(groupMode ? people : [landmarks], crop) : null;
+
+    // A mirrored (front camera) preview shows the subject flipped, so flip left/right hints to match
+    const rawCenterOffset = target && measured
+      ? computeTargetCenterOffset(measured, target)
+      : bounds ? computeGroupCenterOffset(bounds) : computeCenterOffset(landmarks, crop);
+    const centerOffset = rawCenterOffset * (isCameraMirrored ? -1 : 1);
+
+    // Templates without vertical targets of their own aim for where the reference image places the subject
+    const getVerticalGuidance = (previous?: VerticalGuidance): VerticalGuidance => {
+      const vertical = computeVerticalFraming(landmarks, crop, selectedTemplate.verticalFraming, previous);
+      return target && measured && !selectedTemplate.verticalFraming
+        ? { ...vertical, hint: computeTargetVerticalHint(measured, target, previous?.hint) }
+        : vertical;
+    };
+
+    // Previous hints feed the thresholds' hysteresis
+    setGuidance((previous) => ({
       centerOffset,
-      distance,
+      centered: isCentered(centerOffset, previous?.centered),
+      vertical: getVerticalGuidance(previous?.vertical),
+      distance: target && measured
+        ? computeTargetDistanceHint(measured, target, previous?.distance)
+        : bounds
+          ? computeGroupDistanceHint(bounds, previous?.distance)
+          : computeDistanceHint(landmarks, crop, cropAspect, previous?.distance),
       tilt,
-      poseMatch,
-    });
-  }, [latestDetection, videoElement, selectedTemplate, viewportSize]);
+      deviceTilt,
+      poseMatch: best.poseMatch,
+      positionMatch: best.positionMatch,
+      angleMatch: best.angleMatch,
+      orientation: best === mirrored ? 'mirrored' : 'original',
+      corrections: best.corrections,
+      cropWarnings: getCropWarnings(landmarks, crop),
+      group,
+      personMatches: best.personMatches,
+    }));
+  }, [subjectLandmarks, people, activePerson, groupMode, videoElement, selectedTemplate, viewportSize, isCameraMirrored, captureFormat, deviceTilt]);
 
   const handleCapture = useCallback(async () => {
     if (!videoElement || isCapturing) return;
 
     setIsCapturing(true);
 
+    // Snapshot pose state now - detection keeps running while the blob encodes
+    const capturedLandmarks = rawSubjectLandmarks;
+    const capturedGuidance = guidance ?? undefined;
+
     try {
       const videoWidth = videoElement.videoWidth;
       const videoHeight = videoElement.videoHeight;
-      const videoAspect = videoWidth / videoHeight;
-      const targetAspect = 4 / 5; // 4:5 aspect ratio
-
-      // Calculate crop dimensions to get 4:5 aspect ratio
-      let cropWidth, cropHeight, cropX, cropY;
-
-      if (videoAspect > targetAspect) {
-        // Video is wider than 4:5, crop width
-        cropHeight = videoHeight;
-        cropWidth = videoHeight * targetAspect; // height * (4/5)
-        cropX = (videoWidth - cropWidth) / 2; // Center horizontally
-        cropY = 0;
-      } else {
-        // Video is taller than 4:5, crop height
-        cropWidth = videoWidth;
-        cropHeight = videoWidth / targetAspect; // width / (4/5) = width * 1.25
-        cropX = 0;
-        cropY = (videoHeight - cropHeight) / 2; // Center vertically
-      }
 
-      // Create canvas with 4:5 aspect ratio
+      // Grab a full-resolution still; the preview stream stays low-res for detection
+      const still = await captureStill(videoElement);
+      // Crop the still to the same region the preview frame and guidance used
+      const mapping = createFrameMapping(
+        videoWidth,
+        videoHeight,
+        viewportSize.width,
+        viewportSize.height,
+        getAspectRatio(captureFormat.aspectRatio)
+      );
+      const crop = getSourceCropRect(mapping, still.width, still.height);
+
+      // Downscale if the crop exceeds the selected output resolution
+      const outputScale = captureFormat.maxDimension
+        ? Math.min(1, captureFormat.maxDimension / Math.max(crop.width, crop.height))
+        : 1;
+
       const canvas = document.createElement('canvas');
-      canvas.width = cropWidth;
-      canvas.height = cropHeight;
+      canvas.width = Math.round(crop.width * outputScale);
+      canvas.height = Math.round(crop.height * outputScale);
 
       const ctx = canvas.getContext('2d');
       if (!ctx) {
+        still.release();
         setIsCapturing(false);
         return;
       }
 
-      // Draw cropped portion of video to canvas
+      // Draw cropped portion of the still to canvas
       ctx.drawImage(
-        videoElement,
-        cropX, cropY, cropWidth, cropHeight, // Source rectangle (crop from video)
-        0, 0, cropWidth, cropHeight // Destination rectangle (full canvas)
+        still.image,
+        crop.x, crop.y, crop.width, crop.height, // Source rectangle (crop from still)
+        0, 0, canvas.width, canvas.height // Destination rectangle (full canvas)
       );
+      still.release();
 
       canvas.toBlob(async (blob) => {
         if (!blob) {
@@ -310,46 +646,121 @@ function App() {
           return;
         }
 
-        const url = URL.createObjectURL(blob);
         const photo: PhotoRecord = {
           id: `photo-${Date.now()}`,
-          url,
+          blob,
+          url: URL.createObjectURL(blob),
           timestamp: Date.now(),
+          // Browsers without WebP encoding fall back to PNG, so record what we actually got
+          format: { ...captureFormat, mimeType: blob.type as OutputMimeType },
           meta: {
             poseTemplate: selectedTemplate.id,
-            poseMatch: guidance?.poseMatch,
+            poseMatch: capturedGuidance?.poseMatch,
+            landmarks: capturedLandmarks,
+            guidance: capturedGuidance,
+            crop,
+            videoResolution: { width: videoWidth, height: videoHeight },
+            stillResolution: { width: still.width, height: still.height },
+            stillMethod: still.method,
           },
         };
 
-        await savePhoto(photo);
-        setPhotos((prev) => [photo, ...prev]);
-        
-        // Reset capturing state after a short delay
-        setTimeout(() => {
-          setIsCapturing(false);
-        }, 300);
-      }, 'image/jpeg', 0.95);
+        try {
+          await savePhoto(photo);
+          setPhotos((prev) => [photo, ...prev]);
+        } catch (err) {
+          // Full-resolution PNG/WebP photos can run into the storage quota
+          console.error('Failed to save photo:', err);
+          URL.revokeObjectURL(photo.url);
+          alert('Failed to save photo - your device may be out of storage');
+        } finally {
+          // Reset capturing state after a short delay
+          setTimeout(() => {
+            setIsCapturing(false);
+          }, 300);
+        }
+      }, captureFormat.mimeType, captureFormat.quality);
     } catch (err) {
       console.error('Capture error:', err);
       alert('Failed to capture photo');
       setIsCapturing(false);
     }
-  }, [videoElement, selectedTemplate, guidance, isCapturing]);
+  }, [videoElement, selectedTemplate, guidance, rawSubjectLandmarks, isCapturing, captureFormat, viewportSize]);
+
+  const handleTemplateSave = useCallback(async (template: PoseTemplate) => {
+    try {
+      await saveTemplate(template);
+    } catch (err) {
+      console.error('Failed to save template:', err);
+      alert('Failed to save pose');
+      return;
+    }
+
+    setCustomTemplates((prev) =>
+      prev.some((t) => t.id === template.id)
+        ? prev.map((t) => (t.id === template.id ? template : t))
+        : [...prev, template]
+    );
+    setTemplateEditorTarget(null);
+    handleTemplateSelect(template);
+  }, [handleTemplateSelect]);
+
+  const handleTemplateDelete = useCallback(async (template: PoseTemplate) => {
+    try {
+      await deleteTemplate(template.id);
+    } catch (err) {
+      console.error('Failed to delete template:', err);
+      return;
+    }
+
+    if (selectedTemplate.id === template.id) {
+      handleTemplateSelect(poseTemplates[0]);
+    }
+    revokeTemplateURL(template);
+    setCustomTemplates((prev) => prev.filter((t) => t.id !== template.id));
+  }, [selectedTemplate, handleTemplateSelect]);
+
+  const autoCaptureProgress = useAutoCapture(
+    guidance,
+    handleCapture,
+    autoCaptureEnabled && view === 'camera' && hasPerson,
+    isCapturing,
+    autoCaptureSettings
+  );
 
   const handlePhotoDelete = useCallback((id: string) => {
+    const deleted = photos.find((p) => p.id === id);
+    if (deleted) {
+      revokePhotoURL(deleted);
+    }
     setPhotos((prev) => prev.filter((p) => p.id !== id));
-  }, []);
+  }, [photos]);
 
   const getGuidanceMessage = () => {
     if (!guidance) return null;
 
+    const slotCount = selectedTemplate.people?.length ?? 0;
+    if (guidance.group && guidance.group.personCount < slotCount) {
+      return `This pose needs ${slotCount} people.`;
+    }
     if (guidance.distance === 'too-close') return 'Too close.';
     if (guidance.distance === 'too-far') return 'Step forward.';
-    if (Math.abs(guidance.centerOffset) > 0.15) {
+    if (guidance.group && guidance.group.cutOff.length > 0) {
+      return `Person ${guidance.group.cutOff[0].person + 1} is cut off.`;
+    }
+    if (!guidance.centered) {
       return guidance.centerOffset > 0 ? 'Move right.' : 'Move left.';
     }
-    if (guidance.tilt > 5) return 'Still crooked.';
+    if (guidance.vertical.hint !== 'good') return VERTICAL_HINT_MESSAGES[guidance.vertical.hint];
+    if (guidance.cropWarnings.length > 0) return `${guidance.cropWarnings[0].message}.`;
+    // Level the phone first - a crooked phone also makes the shoulders look tilted
+    if (guidance.deviceTilt !== null && Math.abs(guidance.deviceTilt) > DEVICE_TILT_TOLERANCE_DEGREES) {
+      return 'Level your phone.';
+    }
+    if (Math.abs(guidance.tilt) > TILT_TOLERANCE_DEGREES) return 'Straighten shoulders.';
+    if (autoCaptureProgress !== null) return 'Hold it...';
     if (guidance.poseMatch > 0.7) return "Now we're talking.";
+    if (guidance.corrections.length > 0) return `${guidance.corrections[0].message}.`;
     return 'Align with the outline.';
   };
 
@@ -376,6 +787,36 @@ function App() {
               </h1>
               <div className="top-bar-actions">
                 <div className="top-bar-spacer"></div>
+                <button
+                  onClick={() => setShowCaptureSettings(true)}
+                  className="skeleton-toggle"
+                  title="Capture format"
+                >
+                  {captureFormat.aspectRatio}
+                </button>
+                <button
+                  onClick={() => setAutoCaptureEnabled(!autoCaptureEnabled)}
+                  className={`skeleton-toggle ${autoCaptureEnabled ? 'active' : ''}`}
+                  title="Capture automatically when the pose holds"
+                >
+                  Auto
+                </button>
+                {orientationPermission === 'prompt' && (
+                  <button
+                    onClick={requestOrientationPermission}
+                    className="skeleton-toggle"
+                    title="Use the motion sensors to level the phone"
+                  >
+                    Level
+                  </button>
+                )}
+                <button
+                  onClick={() => setGroupMode(!groupMode)}
+                  className={`skeleton-toggle ${groupMode ? 'active' : ''}`}
+                  title="Frame a group of people"
+                >
+                  Group
+                </button>
                 <button
                   onClick={() => setShowSkeleton(!showSkeleton)}
                   className={`skeleton-toggle ${showSkeleton ? 'active' : ''}`}
@@ -392,11 +833,13 @@ function App() {
             <CameraView
               onVideoReady={setVideoElement}
               isActive={view === 'camera'}
+              onMirroredChange={setIsCameraMirrored}
             />
             {videoElement && (
               <HUDOverlay
                 videoElement={videoElement}
-                landmarks={latestDetection?.landmarks || null}
+                landmarks={subjectLandmarks || null}
+                people={groupMode ? people : null}
                 guidance={guidance}
                 template={selectedTemplate}
                 viewportWidth={viewportSize.width}
@@ -406,9 +849,28 @@ function App() {
                 templateLandmarks={templateLandmarks}
                 showTemplateOverlay={showSkeleton}
                 showTemplateSkeleton={showTemplateSkeleton}
+                autoCaptureProgress={autoCaptureProgress}
+                mirrored={isCameraMirrored}
+                captureAspect={getAspectRatio(captureFormat.aspectRatio)}
               />
             )}
 
+            {/* Pick which person in the group is matched against the template */}
+            {groupMode && people.length > 1 && (
+              <div className="person-picker">
+                {people.map((_, index) => (
+                  <button
+                    key={index}
+                    onClick={() => setSelectedPerson(index)}
+                    className={`skeleton-toggle ${index === activePerson ? 'active' : ''}`}
+                    title={`Match person ${index + 1} against the pose`}
+                  >
+                    {index + 1}
+                  </button>
+                ))}
+              </div>
+            )}
+
             {/* Guidance message */}
             {guidance && (
               <div className="guidance-container">
@@ -445,7 +907,7 @@ function App() {
           >
             {/* Pose selector - hidden but kept for reference */}
             <div className="pose-selector">
-              {poseTemplates.map((template) => (
+              {allTemplates.map((template) => (
                 <button
                   key={template.id}
                   onClick={() => handleTemplateSelect(template)}
@@ -517,19 +979,69 @@ function App() {
           {/* Pose Gallery Modal */}
           {showPoseGallery && (
             <PoseGallery
-              templates={poseTemplates}
+              templates={allTemplates}
               onSelectTemplate={handleTemplateSelect}
               onClose={() => setShowPoseGallery(false)}
+              onCreateTemplate={() => {
+                setShowPoseGallery(false);
+                setTemplateEditorTarget('new');
+              }}
+              onEditTemplate={(template) => {
+                setShowPoseGallery(false);
+                setTemplateEditorTarget(template);
+              }}
+              onDeleteTemplate={handleTemplateDelete}
+            />
+          )}
+
+          {/* Capture format and detection settings */}
+          {showCaptureSettings && (
+            <CaptureSettings
+              format={captureFormat}
+              onChange={(format) => {
+                saveCaptureFormat(format);
+                setCaptureFormat(format);
+              }}
+              detectionSettings={detectionSettings}
+              onDetectionSettingsChange={(settings) => {
+                if (settings.image !== detectionSettings.image) {
+                  // Re-analyze templates with the new model when next selected
+                  templateAnalysisCache.clear();
+                }
+                saveDetectionSettings(settings);
+                setDetectionSettings(settings);
+              }}
+              autoCapture={autoCaptureSettings}
+              onAutoCaptureChange={(settings) => {
+                saveAutoCaptureSettings(settings);
+                setAutoCaptureSettings(settings);
+              }}
+              trackingStats={trackingStats}
+              onClose={() => setShowCaptureSettings(false)}
+            />
+          )}
+
+          {/* Custom pose template editor */}
+          {templateEditorTarget && (
+            <TemplateEditor
+              template={templateEditorTarget === 'new' ? null : templateEditorTarget}
+              photos={photos}
+              landmarkerConfig={detectionSettings.image}
+              onSave={handleTemplateSave}
+              onClose={() => setTemplateEditorTarget(null)}
             />
           )}
         </>
       ) : (
         <Gallery
           photos={photos}
+          templates={allTemplates}
           onClose={() => setView('camera')}
           onPhotoDelete={handlePhotoDelete}
         />
       )}
+
+      <UpdatePrompt />
     </div>
   );
 }
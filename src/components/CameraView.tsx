@@ -1,58 +1,130 @@
 import { useEffect, useRef, useState } from 'react';
 
+export type FacingMode = 'user' | 'environment';
+
+type CameraPreference = {
+  facingMode: FacingMode;
+  deviceId?: string; // Specific camera picked by the user, if any
+}
+
+const PREFERENCE_STORAGE_KEY = 'rightangle-camera';
+
+function loadCameraPreference(): CameraPreference {
+  try {
+    const stored = localStorage.getItem(PREFERENCE_STORAGE_KEY);
+    if (stored) {
+      return JSON.parse(stored) as CameraPreference;
+    }
+  } catch (err) {
+    console.warn('Failed to read camera preference:', err);
+  }
+  return { facingMode: 'environment' }; // Back camera by default
+}
+
+function saveCameraPreference(preference: CameraPreference) {
+  try {
+    localStorage.setItem(PREFERENCE_STORAGE_KEY, JSON.stringify(preference));
+  } catch (err) {
+    console.warn('Failed to save camera preference:', err);
+  }
+}
+
+function stopStream(stream: MediaStream | null) {
+  stream?.getTracks().forEach((track) => track.stop());
+}
+
 interface CameraViewProps {
   onVideoReady: (video: HTMLVideoElement) => void;
   isActive: boolean;
+  onMirroredChange?: (isMirrored: boolean) => void;
 }
 
-export function CameraView({ onVideoReady, isActive }: CameraViewProps) {
+export function CameraView({ onVideoReady, isActive, onMirroredChange }: CameraViewProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
   const [stream, setStream] = useState<MediaStream | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [preference, setPreference] = useState<CameraPreference>(loadCameraPreference);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [activeDeviceId, setActiveDeviceId] = useState<string | null>(null);
+  const [isMirrored, setIsMirrored] = useState(false);
 
+  // Keep the camera list current (labels only appear after permission is granted)
   useEffect(() => {
+    async function refreshDevices() {
+      try {
+        const allDevices = await navigator.mediaDevices.enumerateDevices();
+        setDevices(allDevices.filter((device) => device.kind === 'videoinput'));
+      } catch (err) {
+        console.error('Failed to enumerate cameras:', err);
+      }
+    }
+
+    refreshDevices();
+    navigator.mediaDevices.addEventListener('devicechange', refreshDevices);
+    return () => {
+      navigator.mediaDevices.removeEventListener('devicechange', refreshDevices);
+    };
+  }, [stream]);
+
+  useEffect(() => {
+    let isCancelled = false;
+
     async function startCamera() {
       try {
         setIsLoading(true);
         setError(null);
 
-        // Try to get camera with preferred settings
+        // Release the previous camera first - many phones can't open two at once
+        stopStream(streamRef.current);
+        streamRef.current = null;
+
+        const resolution = {
+          width: { ideal: 1280 },
+          height: { ideal: 720 },
+        };
+        const otherFacing: FacingMode = preference.facingMode === 'environment' ? 'user' : 'environment';
+
+        // Try the preferred camera, then the other side, then let the browser choose
+        const attempts: MediaTrackConstraints[] = [
+          ...(preference.deviceId ? [{ deviceId: { exact: preference.deviceId }, ...resolution }] : []),
+          { facingMode: preference.facingMode, ...resolution },
+          { facingMode: otherFacing, ...resolution },
+          resolution,
+        ];
+
         let mediaStream: MediaStream | null = null;
-        
-        // First, try back camera (for mobile)
-        try {
-          mediaStream = await navigator.mediaDevices.getUserMedia({
-            video: {
-              facingMode: 'environment', // Back camera
-              width: { ideal: 1280 },
-              height: { ideal: 720 },
-            },
-          });
-        } catch (backCameraError) {
-          // If back camera fails, try front camera (for desktop webcam)
-          console.log('Back camera not available, trying front camera...');
+        let lastError: unknown = null;
+        for (const constraints of attempts) {
           try {
-            mediaStream = await navigator.mediaDevices.getUserMedia({
-              video: {
-                facingMode: 'user', // Front camera / webcam
-                width: { ideal: 1280 },
-                height: { ideal: 720 },
-              },
-            });
-          } catch (frontCameraError) {
-            // If both fail, try without facingMode constraint (let browser choose)
-            console.log('Specific camera failed, trying any available camera...');
-            mediaStream = await navigator.mediaDevices.getUserMedia({
-              video: {
-                width: { ideal: 1280 },
-                height: { ideal: 720 },
-              },
-            });
+            mediaStream = await navigator.mediaDevices.getUserMedia({ video: constraints });
+            break;
+          } catch (attemptError) {
+            lastError = attemptError;
+            console.log('Camera not available with constraints, trying next option...', constraints);
           }
         }
 
-        if (videoRef.current && mediaStream) {
+        if (!mediaStream) {
+          throw lastError;
+        }
+
+        if (isCancelled) {
+          stopStream(mediaStream);
+          return;
+        }
+
+        streamRef.current = mediaStream;
+
+        // Only mirror cameras that say they face the user; many desktop and USB cameras don't report it
+        const settings = mediaStream.getVideoTracks()[0]?.getSettings();
+        const mirrored = settings?.facingMode === 'user';
+        setActiveDeviceId(settings?.deviceId ?? null);
+        setIsMirrored(mirrored);
+        onMirroredChange?.(mirrored);
+
+        if (videoRef.current) {
           console.log('Camera stream obtained:', mediaStream);
           videoRef.current.srcObject = mediaStream;
           setStream(mediaStream);
@@ -97,11 +169,32 @@ export function CameraView({ onVideoReady, isActive }: CameraViewProps) {
     }
 
     return () => {
-      if (stream) {
-        stream.getTracks().forEach((track) => track.stop());
-      }
+      isCancelled = true;
+      stopStream(streamRef.current);
+      streamRef.current = null;
     };
-  }, [isActive, onVideoReady]);
+  }, [isActive, onVideoReady, onMirroredChange, preference]);
+
+  const updatePreference = (next: CameraPreference) => {
+    saveCameraPreference(next);
+    setPreference(next);
+  };
+
+  const handleSwitchCamera = () => {
+    updatePreference({
+      facingMode: isMirrored ? 'environment' : 'user',
+    });
+  };
+
+  const handleSelectDevice = (deviceId: string) => {
+    const device = devices.find((d) => d.deviceId === deviceId);
+    // Guess the side from the label so the flip button stays consistent
+    const isFront = device ? /front|user|face/i.test(device.label) : isMirrored;
+    updatePreference({
+      facingMode: isFront ? 'user' : 'environment',
+      deviceId,
+    });
+  };
 
   if (error) {
     return (
@@ -121,7 +214,7 @@ export function CameraView({ onVideoReady, isActive }: CameraViewProps) {
         autoPlay
         playsInline
         muted
-        className="camera-video"
+        className={isMirrored ? 'camera-video camera-video-mirrored' : 'camera-video'}
       />
       {isLoading && (
         <div className="loading-overlay">
@@ -132,13 +225,13 @@ export function CameraView({ onVideoReady, isActive }: CameraViewProps) {
         </div>
       )}
       {!isLoading && !error && stream && (
-        <div style={{ 
-          position: 'absolute', 
-          bottom: '10px', 
-          left: '10px', 
-          background: 'rgba(0,0,0,0.7)', 
-          color: '#fff', 
-          padding: '4px 8px', 
+        <div style={{
+          position: 'absolute',
+          bottom: '10px',
+          left: '10px',
+          background: 'rgba(0,0,0,0.7)',
+          color: '#fff',
+          padding: '4px 8px',
           borderRadius: '4px',
           fontSize: '12px',
           zIndex: 10
@@ -146,7 +239,32 @@ export function CameraView({ onVideoReady, isActive }: CameraViewProps) {
           Camera active
         </div>
       )}
+      {stream && (
+        <div className="camera-controls">
+          <button
+            onClick={handleSwitchCamera}
+            className="skeleton-toggle"
+            aria-label="Switch camera"
+            title="Switch between front and back camera"
+          >
+            Flip
+          </button>
+          {devices.length > 1 && (
+            <select
+              value={activeDeviceId ?? ''}
+              onChange={(e) => handleSelectDevice(e.target.value)}
+              className="camera-device-select"
+              aria-label="Select camera"
+            >
+              {devices.map((device, index) => (
+                <option key={device.deviceId} value={device.deviceId}>
+                  {device.label || `Camera ${index + 1}`}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
     </div>
   );
 }
-
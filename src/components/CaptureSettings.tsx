@@ -0,0 +1,181 @@
+import {
+  type CaptureFormat,
+  ASPECT_RATIOS,
+  OUTPUT_TYPES,
+  OUTPUT_RESOLUTIONS,
+} from '../utils/captureFormat';
+import {
+  type DetectionSettings,
+  type LandmarkerConfig,
+  POSE_MODEL_VARIANTS,
+  POSE_DELEGATES,
+} from '../utils/mediapipeConfig';
+import { type AutoCaptureSettings } from '../hooks/useAutoCapture';
+import { type FrameRateStats } from '../utils/frameRateController';
+
+interface CaptureSettingsProps {
+  format: CaptureFormat;
+  onChange: (format: CaptureFormat) => void;
+  detectionSettings: DetectionSettings;
+  onDetectionSettingsChange: (settings: DetectionSettings) => void;
+  autoCapture: AutoCaptureSettings;
+  onAutoCaptureChange: (settings: AutoCaptureSettings) => void;
+  trackingStats: FrameRateStats;
+  onClose: () => void;
+}
+
+// Model and delegate pickers for one landmarker
+function LandmarkerOptions({ label, config, onChange }: {
+  label: string;
+  config: LandmarkerConfig;
+  onChange: (config: LandmarkerConfig) => void;
+}) {
+  return (
+    <>
+      <p className="template-editor-hint">{label}</p>
+      <div className="template-editor-landmark-list">
+        {POSE_MODEL_VARIANTS.map((variant) => (
+          <button
+            key={variant.id}
+            onClick={() => onChange({ ...config, model: variant.id })}
+            className={`skeleton-toggle ${config.model === variant.id ? 'active' : ''}`}
+          >
+            {variant.label}
+          </button>
+        ))}
+        {POSE_DELEGATES.map((delegate) => (
+          <button
+            key={delegate.id}
+            onClick={() => onChange({ ...config, delegate: delegate.id })}
+            className={`skeleton-toggle ${config.delegate === delegate.id ? 'active' : ''}`}
+          >
+            {delegate.label}
+          </button>
+        ))}
+      </div>
+    </>
+  );
+}
+
+export function CaptureSettings({
+  format,
+  onChange,
+  detectionSettings,
+  onDetectionSettingsChange,
+  autoCapture,
+  onAutoCaptureChange,
+  trackingStats,
+  onClose,
+}: CaptureSettingsProps) {
+  const update = (changes: Partial<CaptureFormat>) => onChange({ ...format, ...changes });
+  const updateAutoCapture = (changes: Partial<AutoCaptureSettings>) => onAutoCaptureChange({ ...autoCapture, ...changes });
+
+  return (
+    <div className="pose-gallery-modal" onClick={onClose}>
+      <div className="pose-gallery-content" onClick={(e) => e.stopPropagation()}>
+        <div className="pose-gallery-header">
+          <h2 className="pose-gallery-title">Capture Settings</h2>
+          <button onClick={onClose} className="pose-gallery-close-button">
+            ✕
+          </button>
+        </div>
+        <div className="pose-gallery-grid-container capture-settings">
+          <p className="template-editor-hint">Aspect ratio</p>
+          <div className="template-editor-landmark-list">
+            {ASPECT_RATIOS.map((aspect) => (
+              <button
+                key={aspect.id}
+                onClick={() => update({ aspectRatio: aspect.id })}
+                className={`skeleton-toggle ${format.aspectRatio === aspect.id ? 'active' : ''}`}
+              >
+                {aspect.label}
+              </button>
+            ))}
+          </div>
+
+          <p className="template-editor-hint">File type</p>
+          <div className="template-editor-landmark-list">
+            {OUTPUT_TYPES.map((type) => (
+              <button
+                key={type.mimeType}
+                onClick={() => update({ mimeType: type.mimeType })}
+                className={`skeleton-toggle ${format.mimeType === type.mimeType ? 'active' : ''}`}
+              >
+                {type.label}
+              </button>
+            ))}
+          </div>
+
+          {format.mimeType !== 'image/png' && (
+            <>
+              <p className="template-editor-hint">Quality {Math.round(format.quality * 100)}%</p>
+              <input
+                type="range"
+                min={0.5}
+                max={1}
+                step={0.05}
+                value={format.quality}
+                onChange={(e) => update({ quality: Number(e.target.value) })}
+                className="capture-settings-slider"
+              />
+            </>
+          )}
+
+          <p className="template-editor-hint">Resolution</p>
+          <div className="template-editor-landmark-list">
+            {OUTPUT_RESOLUTIONS.map((resolution) => (
+              <button
+                key={resolution.label}
+                onClick={() => update({ maxDimension: resolution.maxDimension })}
+                className={`skeleton-toggle ${format.maxDimension === resolution.maxDimension ? 'active' : ''}`}
+              >
+                {resolution.label}
+              </button>
+            ))}
+          </div>
+
+          <p className="template-editor-hint">Auto capture at {Math.round(autoCapture.threshold * 100)}% match</p>
+          <input
+            type="range"
+            min={0.5}
+            max={0.95}
+            step={0.05}
+            value={autoCapture.threshold}
+            onChange={(e) => updateAutoCapture({ threshold: Number(e.target.value) })}
+            className="capture-settings-slider"
+          />
+          <p className="template-editor-hint">Hold for {(autoCapture.dwellMs / 1000).toFixed(1)}s</p>
+          <input
+            type="range"
+            min={500}
+            max={3000}
+            step={250}
+            value={autoCapture.dwellMs}
+            onChange={(e) => updateAutoCapture({ dwellMs: Number(e.target.value) })}
+            className="capture-settings-slider"
+          />
+
+          <LandmarkerOptions
+            label="Live tracking model"
+            config={detectionSettings.video}
+            onChange={(video) => onDetectionSettingsChange({ ...detectionSettings, video })}
+          />
+          <p className="template-editor-hint">
+            {trackingStats.inferenceMs === null
+              ? 'Measuring tracking speed...'
+              : `Tracking at ${Math.round(trackingStats.measuredFps)} FPS · ${Math.round(trackingStats.inferenceMs)} ms per frame`}
+            {trackingStats.throttleReason === 'battery-saver' && ' · slowed to save battery'}
+          </p>
+          <LandmarkerOptions
+            label="Template analysis model"
+            config={detectionSettings.image}
+            onChange={(image) => onDetectionSettingsChange({ ...detectionSettings, image })}
+          />
+          <p className="template-editor-hint">
+            Heavier models are more accurate but slower. Use CPU if tracking is unstable on your device.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,86 @@
 import { useState, useRef } from 'react';
 import { type PhotoRecord, deletePhoto } from '../utils/indexedDB';
+import { type PoseTemplate } from '../data/poseTemplates';
+import { OUTPUT_TYPES, getFileExtension } from '../utils/captureFormat';
 
 interface GalleryProps {
   photos: PhotoRecord[];
+  templates: PoseTemplate[];
   onClose: () => void;
   onPhotoDelete: (id: string) => void;
 }
 
-export function Gallery({ photos, onClose, onPhotoDelete }: GalleryProps) {
+// Build label/value rows describing how a photo was captured
+function getMetaRows(photo: PhotoRecord, templates: PoseTemplate[]): { label: string; value: string }[] {
+  const rows: { label: string; value: string }[] = [];
+
+  if (photo.format) {
+    const { aspectRatio, mimeType, quality } = photo.format;
+    const typeLabel = OUTPUT_TYPES.find((t) => t.mimeType === mimeType)?.label ?? mimeType;
+    rows.push({
+      label: 'Format',
+      value: mimeType === 'image/png'
+        ? `${aspectRatio} ${typeLabel}`
+        : `${aspectRatio} ${typeLabel} ${Math.round(quality * 100)}%`,
+    });
+  }
+
+  const meta = photo.meta;
+  if (!meta) return rows;
+
+  if (meta.poseTemplate) {
+    rows.push({ label: 'Pose', value: templates.find((t) => t.id === meta.poseTemplate)?.name ?? meta.poseTemplate });
+  }
+  if (meta.poseMatch !== undefined) {
+    rows.push({ label: 'Match', value: `${Math.round(meta.poseMatch * 100)}%` });
+  }
+  if (meta.guidance?.positionMatch !== undefined && meta.guidance.angleMatch !== undefined) {
+    rows.push({ label: 'Position match', value: `${Math.round(meta.guidance.positionMatch * 100)}%` });
+    rows.push({ label: 'Angle match', value: `${Math.round(meta.guidance.angleMatch * 100)}%` });
+  }
+  if (meta.guidance?.orientation === 'mirrored') {
+    rows.push({ label: 'Orientation', value: 'Mirrored' });
+  }
+  if (meta.guidance) {
+    const offset = meta.guidance.centerOffset;
+    rows.push({
+      label: 'Center',
+      value: Math.abs(offset) < 0.01
+        ? 'Centered'
+        : `${Math.round(Math.abs(offset) * 100)}% ${offset > 0 ? 'right' : 'left'}`,
+    });
+    rows.push({ label: 'Distance', value: meta.guidance.distance.replace('-', ' ') });
+    rows.push({ label: 'Shoulder tilt', value: `${meta.guidance.tilt.toFixed(1)}°` });
+    if (typeof meta.guidance.deviceTilt === 'number') {
+      rows.push({ label: 'Phone tilt', value: `${meta.guidance.deviceTilt.toFixed(1)}°` });
+    }
+  }
+  if (meta.landmarks) {
+    const visible = meta.landmarks.filter((lm) => lm.visibility && lm.visibility > 0.5).length;
+    rows.push({ label: 'Landmarks', value: `${visible}/${meta.landmarks.length} visible` });
+  }
+  if (meta.videoResolution) {
+    rows.push({ label: 'Video', value: `${meta.videoResolution.width}×${meta.videoResolution.height}` });
+  }
+  if (meta.stillResolution) {
+    const source = meta.stillMethod === 'video-frame' ? 'preview frame' : 'full sensor';
+    rows.push({
+      label: 'Still',
+      value: `${meta.stillResolution.width}×${meta.stillResolution.height} (${source})`,
+    });
+  }
+  if (meta.crop) {
+    const { x, y, width, height } = meta.crop;
+    rows.push({
+      label: 'Crop',
+      value: `${Math.round(width)}×${Math.round(height)} @ ${Math.round(x)},${Math.round(y)}`,
+    });
+  }
+
+  return rows;
+}
+
+export function Gallery({ photos, templates, onClose, onPhotoDelete }: GalleryProps) {
   const [selectedPhoto, setSelectedPhoto] = useState<PhotoRecord | null>(null);
   const longPressTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const longPressPhotoRef = useRef<PhotoRecord | null>(null);
@@ -15,16 +88,15 @@ export function Gallery({ photos, onClose, onPhotoDelete }: GalleryProps) {
   const handleDownload = (photo: PhotoRecord) => {
     const link = document.createElement('a');
     link.href = photo.url;
-    link.download = `rightangle-${photo.timestamp}.jpg`;
+    link.download = `rightangle-${photo.timestamp}.${getFileExtension(photo.blob.type)}`;
     link.click();
   };
 
   const handleShare = async (photo: PhotoRecord) => {
     try {
-      // Convert blob URL to blob
-      const response = await fetch(photo.url);
-      const blob = await response.blob();
-      const file = new File([blob], `rightangle-${photo.timestamp}.jpg`, { type: 'image/jpeg' });
+      const file = new File([photo.blob], `rightangle-${photo.timestamp}.${getFileExtension(photo.blob.type)}`, {
+        type: photo.blob.type || 'image/jpeg',
+      });
 
       if (navigator.share) {
         await navigator.share({
@@ -70,6 +142,8 @@ export function Gallery({ photos, onClose, onPhotoDelete }: GalleryProps) {
   };
 
   if (selectedPhoto) {
+    const metaRows = getMetaRows(selectedPhoto, templates);
+
     return (
       <div className="gallery-container">
         <div className="gallery-header">
@@ -89,6 +163,16 @@ export function Gallery({ photos, onClose, onPhotoDelete }: GalleryProps) {
             className="gallery-photo"
           />
         </div>
+        {metaRows.length > 0 && (
+          <dl className="gallery-meta">
+            {metaRows.map((row) => (
+              <div key={row.label} className="gallery-meta-row">
+                <dt className="gallery-meta-label">{row.label}</dt>
+                <dd className="gallery-meta-value">{row.value}</dd>
+              </div>
+            ))}
+          </dl>
+        )}
         <div className="gallery-actions">
           <button
             onClick={() => handleDownload(selectedPhoto)}
@@ -1,6 +1,16 @@
 import { useEffect, useRef } from 'react';
-import { type Landmark, type PoseGuidance, POSE_LANDMARKS } from '../types/pose';
+import { type Landmark, type PoseGuidance, type FrameEdge, POSE_LANDMARKS } from '../types/pose';
 import { type PoseTemplate } from '../data/poseTemplates';
+import {
+  type Point,
+  createFrameMapping,
+  getPreviewCropRect,
+  fitRectContain,
+  videoToPreview,
+  cropToPreview,
+  previewToCanvas,
+} from '../utils/coordinateMapping';
+import { getPoseBoundingBox, TILT_TOLERANCE_DEGREES, DEVICE_TILT_TOLERANCE_DEGREES } from '../utils/poseUtils';
 
 // Helper function to draw text with letter spacing on canvas
 function fillTextWithLetterSpacing(ctx: CanvasRenderingContext2D, text: string, x: number, y: number, letterSpacing: number) {
@@ -41,6 +51,7 @@ const isMobileDevice = () => {
 interface HUDOverlayProps {
   videoElement: HTMLVideoElement | null;
   landmarks: Landmark[] | null;
+  people?: Landmark[][] | null; // Everyone detected, in group mode
   guidance: PoseGuidance | null;
   template: PoseTemplate | null;
   viewportWidth: number;
@@ -50,11 +61,15 @@ interface HUDOverlayProps {
   templateLandmarks?: Landmark[] | null;
   showTemplateOverlay?: boolean;
   showTemplateSkeleton?: boolean;
+  autoCaptureProgress?: number | null;
+  mirrored?: boolean; // Preview is flipped horizontally (front camera)
+  captureAspect?: number; // Output crop width/height
 }
 
 export function HUDOverlay({
   videoElement,
   landmarks,
+  people = null,
   guidance,
   template,
   viewportWidth,
@@ -64,6 +79,9 @@ export function HUDOverlay({
   templateLandmarks = null,
   showTemplateOverlay = false,
   showTemplateSkeleton = false,
+  autoCaptureProgress = null,
+  mirrored = false,
+  captureAspect = 4 / 5,
 }: HUDOverlayProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const templateImageRef = useRef<HTMLImageElement | null>(null);
@@ -99,32 +117,56 @@ export function HUDOverlay({
     // Clear canvas
     ctx.clearRect(0, 0, canvas.width, canvas.height);
 
+    // Live landmarks are in raw video coordinates, shown cover-scaled (and maybe mirrored) in the preview
+    const mapping = createFrameMapping(
+      videoElement.videoWidth,
+      videoElement.videoHeight,
+      viewportWidth,
+      viewportHeight,
+      captureAspect,
+      mirrored
+    );
+    const toCanvas = (point: Point) => previewToCanvas(videoToPreview(point, mapping), mapping, canvas.width, canvas.height);
+    const cropToCanvas = (point: Point) => previewToCanvas(cropToPreview(point, mapping), mapping, canvas.width, canvas.height);
+    // Left and right edges swap in a mirrored preview
+    const toScreenEdge = (edge: FrameEdge): FrameEdge =>
+      mirrored && edge === 'left' ? 'right' : mirrored && edge === 'right' ? 'left' : edge;
+
+    // Area of the preview that ends up in the photo (the canvas is sized to the preview)
+    const frame = getPreviewCropRect(mapping);
+
+    // Dim everything outside the capture frame and outline it
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.35)';
+    ctx.fillRect(0, 0, canvas.width, frame.y);
+    ctx.fillRect(0, frame.y + frame.height, canvas.width, canvas.height - frame.y - frame.height);
+    ctx.fillRect(0, frame.y, frame.x, frame.height);
+    ctx.fillRect(frame.x + frame.width, frame.y, canvas.width - frame.x - frame.width, frame.height);
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(frame.x + 0.5, frame.y + 0.5, frame.width - 1, frame.height - 1);
+
     // Draw template image overlay first (behind everything else on canvas)
     if (showTemplateOverlay && templateImageRef.current) {
       const img = templateImageRef.current;
+
+      // Fit the template image inside the capture frame, keeping its aspect ratio
+      const {
+        x: drawX,
+        y: drawY,
+        width: drawWidth,
+        height: drawHeight,
+      } = fitRectContain(img.width / img.height, frame);
+
+      // Flip the whole template overlay when the subject matches the mirrored pose
+      const isMirrored = guidance?.orientation === 'mirrored';
+      if (isMirrored) {
+        ctx.save();
+        ctx.translate(2 * drawX + drawWidth, 0);
+        ctx.scale(-1, 1);
+      }
+
       ctx.save();
       ctx.globalAlpha = 0.3; // 30% opacity
-      
-      // Maintain 4:5 aspect ratio of template image while filling frame
-      const imgAspect = img.width / img.height; // Should be 4/5 = 0.8
-      const viewportAspect = viewportWidth / viewportHeight;
-      
-      let drawWidth, drawHeight, drawX, drawY;
-      
-      if (imgAspect > viewportAspect) {
-        // Image is wider relative to viewport - fit to width, center vertically
-        drawWidth = viewportWidth;
-        drawHeight = viewportWidth / imgAspect;
-        drawX = 0;
-        drawY = (viewportHeight - drawHeight) / 2 - 13; // Move up 13px total
-      } else {
-        // Image is taller relative to viewport - fit to height, center horizontally
-        drawHeight = viewportHeight;
-        drawWidth = viewportHeight * imgAspect;
-        drawX = (viewportWidth - drawWidth) / 2;
-        drawY = -13; // Move up 13px total
-      }
-      
       ctx.drawImage(img, drawX, drawY, drawWidth, drawHeight);
       ctx.restore();
 
@@ -242,41 +284,19 @@ export function HUDOverlay({
           }
         });
       }
+
+      if (isMirrored) {
+        ctx.restore();
+      }
     }
 
     // Draw grid/center marker
     ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
     ctx.lineWidth = 1;
 
-    // Center crosshair - recentered to match template overlay position (moved up 13px)
-    let centerX, centerY;
-    if (showTemplateOverlay && templateImageRef.current) {
-      const img = templateImageRef.current;
-      const imgAspect = img.width / img.height;
-      const viewportAspect = viewportWidth / viewportHeight;
-      
-      let drawWidth, drawHeight, drawX, drawY;
-      
-      if (imgAspect > viewportAspect) {
-        drawWidth = viewportWidth;
-        drawHeight = viewportWidth / imgAspect;
-        drawX = 0;
-        drawY = (viewportHeight - drawHeight) / 2 - 13; // Move up 13px total
-      } else {
-        drawHeight = viewportHeight;
-        drawWidth = viewportHeight * imgAspect;
-        drawX = (viewportWidth - drawWidth) / 2;
-        drawY = -13; // Move up 13px total
-      }
-      
-      // Center of the template image
-      centerX = drawX + drawWidth / 2;
-      centerY = drawY + drawHeight / 2;
-    } else {
-      // Default center if no template overlay
-      centerX = canvas.width / 2;
-      centerY = canvas.height / 2;
-    }
+    // Center crosshair - center of the capture frame (and of the fitted template)
+    const centerX = frame.x + frame.width / 2;
+    const centerY = frame.y + frame.height / 2;
     
     const crosshairSize = 20;
 
@@ -287,21 +307,21 @@ export function HUDOverlay({
     ctx.lineTo(centerX, centerY + crosshairSize);
     ctx.stroke();
 
-    // Rule of thirds grid
-    const thirdW = canvas.width / 3;
-    const thirdH = canvas.height / 3;
+    // Rule of thirds grid within the capture frame
+    const thirdW = frame.width / 3;
+    const thirdH = frame.height / 3;
 
     ctx.beginPath();
     // Vertical lines
-    ctx.moveTo(thirdW, 0);
-    ctx.lineTo(thirdW, canvas.height);
-    ctx.moveTo(thirdW * 2, 0);
-    ctx.lineTo(thirdW * 2, canvas.height);
+    ctx.moveTo(frame.x + thirdW, frame.y);
+    ctx.lineTo(frame.x + thirdW, frame.y + frame.height);
+    ctx.moveTo(frame.x + thirdW * 2, frame.y);
+    ctx.lineTo(frame.x + thirdW * 2, frame.y + frame.height);
     // Horizontal lines
-    ctx.moveTo(0, thirdH);
-    ctx.lineTo(canvas.width, thirdH);
-    ctx.moveTo(0, thirdH * 2);
-    ctx.lineTo(canvas.width, thirdH * 2);
+    ctx.moveTo(frame.x, frame.y + thirdH);
+    ctx.lineTo(frame.x + frame.width, frame.y + thirdH);
+    ctx.moveTo(frame.x, frame.y + thirdH * 2);
+    ctx.lineTo(frame.x + frame.width, frame.y + thirdH * 2);
     ctx.stroke();
 
     // Draw skeleton wireframe (when toggle is enabled) - independent of guidance
@@ -376,10 +396,8 @@ export function HUDOverlay({
 
         // Lower visibility threshold for skeleton (0.1 instead of 0.3) to show more points
         if (start && end && start.visibility && start.visibility > 0.1 && end.visibility && end.visibility > 0.1) {
-          const startX = start.x * canvas.width;
-          const startY = start.y * canvas.height;
-          const endX = end.x * canvas.width;
-          const endY = end.y * canvas.height;
+          const { x: startX, y: startY } = toCanvas(start);
+          const { x: endX, y: endY } = toCanvas(end);
           
           ctx.beginPath();
           ctx.moveTo(startX, startY);
@@ -396,8 +414,7 @@ export function HUDOverlay({
       landmarks.forEach((lm, idx) => {
         // Lower visibility threshold for skeleton
         if (lm && lm.visibility && lm.visibility > 0.1) {
-          const x = lm.x * canvas.width;
-          const y = lm.y * canvas.height;
+          const { x, y } = toCanvas(lm);
           
           // Color code by body part - brighter colors
           if (idx <= POSE_LANDMARKS.RIGHT_EAR) {
@@ -428,6 +445,33 @@ export function HUDOverlay({
       console.log('Keypoints drawn:', keypointsDrawn);
     }
 
+    // Draw auto-capture countdown ring around the frame center
+    if (autoCaptureProgress !== null) {
+      const ringRadius = 40;
+
+      ctx.lineWidth = 4;
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
+      ctx.beginPath();
+      ctx.arc(centerX, centerY, ringRadius, 0, 2 * Math.PI);
+      ctx.stroke();
+
+      // Fill clockwise from 12 o'clock
+      ctx.strokeStyle = '#00FFFF'; // Neon blue
+      ctx.lineCap = 'round';
+      ctx.shadowBlur = 8;
+      ctx.shadowColor = '#00FFFF';
+      ctx.beginPath();
+      ctx.arc(
+        centerX,
+        centerY,
+        ringRadius,
+        -Math.PI / 2,
+        -Math.PI / 2 + autoCaptureProgress * 2 * Math.PI
+      );
+      ctx.stroke();
+      ctx.shadowBlur = 0;
+    }
+
     if (!guidance) return;
 
     // Calculate safe area for hints, avoiding top and bottom bars (estimated: top ~80px, bottom ~150px)
@@ -438,7 +482,7 @@ export function HUDOverlay({
     const safeCenterY = safeAreaTop + (safeAreaBottom - safeAreaTop) / 2;
 
     // Draw center offset arrow
-    if (Math.abs(guidance.centerOffset) > 0.1) {
+    if (!guidance.centered) {
       const arrowX = centerX + (guidance.centerOffset * (canvas.width * 0.3));
       const arrowSize = 30;
       const direction = guidance.centerOffset > 0 ? 1 : -1;
@@ -462,6 +506,59 @@ export function HUDOverlay({
       fillTextCompressed(ctx, hintText, hintX, textY, 0.5, isMobile);
     }
 
+    // Eye line against the template's target band, on the left edge of the frame
+    const eyeLineTarget = template?.verticalFraming?.eyeLine;
+    if (eyeLineTarget && guidance.vertical.eyeLine !== null) {
+      ctx.fillStyle = 'rgba(0, 255, 255, 0.25)';
+      ctx.fillRect(
+        frame.x,
+        frame.y + eyeLineTarget.min * frame.height,
+        6,
+        (eyeLineTarget.max - eyeLineTarget.min) * frame.height
+      );
+
+      const eyeY = frame.y + Math.max(0, Math.min(1, guidance.vertical.eyeLine)) * frame.height;
+      const isInBand = guidance.vertical.eyeLine >= eyeLineTarget.min && guidance.vertical.eyeLine <= eyeLineTarget.max;
+      ctx.fillStyle = isInBand ? '#00FF00' : 'rgba(255, 100, 100, 0.9)';
+      ctx.beginPath();
+      ctx.moveTo(frame.x + 14, eyeY);
+      ctx.lineTo(frame.x + 4, eyeY - 6);
+      ctx.lineTo(frame.x + 4, eyeY + 6);
+      ctx.closePath();
+      ctx.fill();
+    }
+
+    // Draw vertical framing arrow on the right of the frame - up means move the frame up
+    if (guidance.vertical.hint !== 'good') {
+      const hint = guidance.vertical.hint;
+      const arrowX = frame.x + frame.width - 36;
+      const arrowSize = 30;
+      const direction = hint === 'tilt-up' || hint === 'raise-phone' ? -1 : 1;
+
+      ctx.fillStyle = 'rgba(255, 100, 100, 0.8)';
+      ctx.beginPath();
+      ctx.moveTo(arrowX, safeCenterY + direction * arrowSize / 2);
+      ctx.lineTo(arrowX - arrowSize / 2, safeCenterY - direction * arrowSize / 2);
+      ctx.lineTo(arrowX + arrowSize / 2, safeCenterY - direction * arrowSize / 2);
+      ctx.closePath();
+      ctx.fill();
+
+      ctx.fillStyle = '#00FFFF'; // Neon blue
+      const isMobile = isMobileDevice();
+      ctx.font = isMobile ? '16px Arial, sans-serif' : '16px "Arial Narrow", Arial, sans-serif';
+      const verticalText = {
+        'tilt-up': 'Tilt up',
+        'tilt-down': 'Tilt down',
+        'raise-phone': 'Raise phone',
+        'lower-phone': 'Lower phone',
+      }[hint];
+      const verticalMetrics = ctx.measureText(verticalText);
+      const verticalWidth = verticalMetrics.width * (isMobile ? 0.8 : 1) + (verticalText.length - 1) * 0.5;
+      const verticalX = Math.min(arrowX - verticalWidth / 2, frame.x + frame.width - verticalWidth - 8);
+      const verticalY = safeCenterY + arrowSize / 2 + 20; // Below the arrow
+      fillTextCompressed(ctx, verticalText, verticalX, verticalY, 0.5, isMobile);
+    }
+
     // Draw distance hint - position above bottom bar
     if (guidance.distance !== 'good') {
       const bottomBarHeight = 150;
@@ -475,35 +572,250 @@ export function HUDOverlay({
       fillTextCompressed(ctx, distanceText, distanceX, hintY, 0.5, isMobile);
     }
 
-    // Draw tilt indicator - position above bottom bar
-    if (guidance.tilt > 5) {
+    // Draw phone level - the horizon as the phone sees it, against fixed level marks
+    if (guidance.deviceTilt !== null && Math.abs(guidance.deviceTilt) > DEVICE_TILT_TOLERANCE_DEGREES) {
+      const levelX = frame.x + frame.width / 2;
+      const levelY = safeAreaTop + 40;
+      const halfWidth = Math.min(80, frame.width / 3);
+
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.7)';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(levelX - halfWidth - 16, levelY);
+      ctx.lineTo(levelX - halfWidth - 4, levelY);
+      ctx.moveTo(levelX + halfWidth + 4, levelY);
+      ctx.lineTo(levelX + halfWidth + 16, levelY);
+      ctx.stroke();
+
+      // Turning the phone clockwise turns the horizon counterclockwise on screen
+      ctx.save();
+      ctx.translate(levelX, levelY);
+      ctx.rotate(-guidance.deviceTilt * (Math.PI / 180));
+      ctx.strokeStyle = 'rgba(255, 200, 0, 0.9)';
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.moveTo(-halfWidth, 0);
+      ctx.lineTo(halfWidth, 0);
+      ctx.stroke();
+      ctx.restore();
+
+      ctx.fillStyle = '#FFC800';
+      const isMobile = isMobileDevice();
+      ctx.font = isMobile ? '12px Arial, sans-serif' : '12px "Arial Narrow", Arial, sans-serif';
+      const phoneText = 'Level phone';
+      const phoneMetrics = ctx.measureText(phoneText);
+      const phoneX = levelX - (phoneMetrics.width * (isMobile ? 0.8 : 1) + (phoneText.length - 1) * 0.5) / 2;
+      fillTextCompressed(ctx, phoneText, phoneX, levelY + 24, 0.5, isMobile);
+    }
+
+    // Draw shoulder tilt indicator - position above bottom bar
+    if (Math.abs(guidance.tilt) > TILT_TOLERANCE_DEGREES) {
       const tiltX = canvas.width / 2;
       const bottomBarHeight = 150;
       const tiltY = canvas.height - bottomBarHeight - 50; // Position above bottom bar
       const rotation = guidance.tilt * (Math.PI / 180);
+      const radius = 28;
 
+      // Current shoulder line against a faint level reference
       ctx.save();
       ctx.translate(tiltX, tiltY);
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.4)';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(-radius, 0);
+      ctx.lineTo(radius, 0);
+      ctx.stroke();
+
       ctx.rotate(rotation);
       ctx.strokeStyle = 'rgba(255, 100, 100, 0.8)';
       ctx.lineWidth = 3;
       ctx.beginPath();
-      ctx.moveTo(-20, 0);
-      ctx.lineTo(20, 0);
+      ctx.moveTo(-radius, 0);
+      ctx.lineTo(radius, 0);
       ctx.stroke();
       ctx.restore();
 
-      // Level indicator text - position below tilt line, but above bottom bar
+      // Curved arrow from the shoulder line back to level, on the right-hand end
+      const direction = guidance.tilt > 0 ? -1 : 1; // Rotate against the tilt
+      const arrowEnd = -direction * 0.05; // Stop just short of the level line so the arrowhead stays clear of it
+      ctx.save();
+      ctx.translate(tiltX, tiltY);
+      ctx.strokeStyle = '#00FFFF'; // Neon blue
+      ctx.fillStyle = '#00FFFF';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.arc(0, 0, radius + 8, rotation, arrowEnd, direction < 0);
+      ctx.stroke();
+
+      const headX = Math.cos(arrowEnd) * (radius + 8);
+      const headY = Math.sin(arrowEnd) * (radius + 8);
+      const tangent = arrowEnd + direction * (Math.PI / 2);
+      ctx.beginPath();
+      ctx.moveTo(headX + Math.cos(tangent) * 8, headY + Math.sin(tangent) * 8);
+      ctx.lineTo(headX + Math.cos(tangent + Math.PI / 2) * 5, headY + Math.sin(tangent + Math.PI / 2) * 5);
+      ctx.lineTo(headX + Math.cos(tangent - Math.PI / 2) * 5, headY + Math.sin(tangent - Math.PI / 2) * 5);
+      ctx.closePath();
+      ctx.fill();
+      ctx.restore();
+
+      // Degree readout - position below tilt line, but above bottom bar
       const textY = Math.min(tiltY + 30, canvas.height - bottomBarHeight - 10);
       ctx.fillStyle = '#00FFFF'; // Neon blue
       const isMobile = isMobileDevice();
       ctx.font = isMobile ? '12px Arial, sans-serif' : '12px "Arial Narrow", Arial, sans-serif';
-      const levelText = 'Level';
+      const levelText = `Shoulders ${Math.round(Math.abs(guidance.tilt))}°`;
       const levelMetrics = ctx.measureText(levelText);
       const levelX = tiltX - (levelMetrics.width * (isMobile ? 0.8 : 1) + (levelText.length - 1) * 0.5) / 2;
       fillTextCompressed(ctx, levelText, levelX, textY, 0.5, isMobile);
     }
-  }, [landmarks, guidance, template, videoElement, viewportWidth, viewportHeight, showSkeleton, templateImageUrl, templateLandmarks, showTemplateOverlay, showTemplateSkeleton]);
+
+    // Group mode: outline the whole group, number each person and flag anyone cut off
+    if (guidance.group && people) {
+      const { bounds, selectedPerson, cutOff } = guidance.group;
+
+      ctx.save();
+      ctx.setLineDash([8, 6]);
+      ctx.strokeStyle = 'rgba(0, 255, 255, 0.6)';
+      ctx.lineWidth = 2;
+      const boundsStart = cropToCanvas({ x: bounds.minX, y: bounds.minY });
+      const boundsEnd = cropToCanvas({ x: bounds.maxX, y: bounds.maxY });
+      ctx.strokeRect(
+        Math.min(boundsStart.x, boundsEnd.x),
+        boundsStart.y,
+        Math.abs(boundsEnd.x - boundsStart.x),
+        boundsEnd.y - boundsStart.y
+      );
+      ctx.restore();
+
+      // Numbered badge above each head; the person matched against the template is highlighted
+      ctx.save();
+      ctx.font = 'bold 14px Arial, sans-serif';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      people.forEach((person, index) => {
+        const box = getPoseBoundingBox(person);
+        if (box.width === 0 && box.height === 0) return;
+
+        const isSelected = index === selectedPerson;
+        const isCutOff = cutOff.some((entry) => entry.person === index);
+        const head = toCanvas({ x: box.centerX, y: box.minY });
+        const badgeX = head.x;
+        const badgeY = Math.max(safeAreaTop, head.y - 20);
+
+        ctx.fillStyle = isCutOff ? 'rgba(255, 100, 100, 0.9)' : isSelected ? '#00FFFF' : 'rgba(0, 0, 0, 0.7)';
+        ctx.beginPath();
+        ctx.arc(badgeX, badgeY, 13, 0, 2 * Math.PI);
+        ctx.fill();
+        if (isSelected) {
+          ctx.strokeStyle = '#FFFFFF';
+          ctx.lineWidth = 2;
+          ctx.stroke();
+        }
+        ctx.fillStyle = isSelected && !isCutOff ? '#000000' : '#FFFFFF';
+        ctx.fillText(String(index + 1), badgeX, badgeY);
+
+        // Per-person score against their place in a multi-person template
+        const personMatch = guidance.personMatches?.find((match) => match.person === index);
+        if (personMatch) {
+          const scoreText = `${Math.round(personMatch.poseMatch * 100)}%`;
+          const scoreWidth = ctx.measureText(scoreText).width;
+          const scoreX = badgeX + 17;
+          ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+          ctx.fillRect(scoreX, badgeY - 10, scoreWidth + 10, 20);
+          ctx.fillStyle = personMatch.poseMatch > 0.7 ? '#00FF00' : '#00FFFF';
+          ctx.fillText(scoreText, scoreX + 5 + scoreWidth / 2, badgeY);
+        }
+      });
+      ctx.restore();
+
+      // Red bar along each capture frame edge someone crosses
+      const edges = new Set<FrameEdge>(cutOff.flatMap((entry) => entry.edges));
+      const edgeWidth = 6;
+      ctx.fillStyle = 'rgba(255, 100, 100, 0.8)';
+      edges.forEach((edge) => {
+        const screenEdge = toScreenEdge(edge);
+        if (screenEdge === 'left') ctx.fillRect(frame.x, frame.y, edgeWidth, frame.height);
+        if (screenEdge === 'right') ctx.fillRect(frame.x + frame.width - edgeWidth, frame.y, edgeWidth, frame.height);
+        if (screenEdge === 'top') ctx.fillRect(frame.x, frame.y, frame.width, edgeWidth);
+        if (screenEdge === 'bottom') ctx.fillRect(frame.x, frame.y + frame.height - edgeWidth, frame.width, edgeWidth);
+      });
+    }
+
+    // Mark where the capture frame cuts the body awkwardly
+    if (guidance.cropWarnings.length > 0) {
+      const isMobile = isMobileDevice();
+      ctx.font = isMobile ? 'bold 14px Arial, sans-serif' : 'bold 14px "Arial Narrow", Arial, sans-serif';
+
+      guidance.cropWarnings.slice(0, 3).forEach((warning) => {
+        // Pin the marker to the frame edge, level with the cut landmark
+        const { x: alongX, y: alongY } = cropToCanvas({
+          x: Math.max(0, Math.min(1, warning.position.x)),
+          y: Math.max(0, Math.min(1, warning.position.y)),
+        });
+        const screenEdge = toScreenEdge(warning.edge);
+        const markerX = screenEdge === 'left' ? frame.x : screenEdge === 'right' ? frame.x + frame.width : alongX;
+        const markerY = screenEdge === 'top' ? frame.y : screenEdge === 'bottom' ? frame.y + frame.height : alongY;
+
+        ctx.strokeStyle = 'rgba(255, 100, 100, 0.9)';
+        ctx.lineWidth = 3;
+        ctx.beginPath();
+        ctx.arc(markerX, markerY, 12, 0, 2 * Math.PI);
+        ctx.stroke();
+
+        // Label inside the frame, away from the edge
+        const text = warning.message;
+        const textWidth = ctx.measureText(text).width * (isMobile ? 0.8 : 1) + (text.length - 1) * 0.5;
+        const labelX = Math.max(
+          frame.x + 8,
+          Math.min(
+            frame.x + frame.width - textWidth - 8,
+            screenEdge === 'left' ? markerX + 20 : screenEdge === 'right' ? markerX - 20 - textWidth : markerX - textWidth / 2
+          )
+        );
+        const labelY = screenEdge === 'top' ? markerY + 34 : screenEdge === 'bottom' ? markerY - 22 : markerY + 5;
+
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+        ctx.fillRect(labelX - 6, labelY - 16, textWidth + 12, 22);
+        ctx.fillStyle = '#FF6464';
+        fillTextCompressed(ctx, text, labelX, labelY, 0.5, isMobile);
+      });
+    }
+
+    // Draw corrective pose hints next to the offending joints
+    if (landmarks && guidance.corrections.length > 0) {
+      const isMobile = isMobileDevice();
+      ctx.font = isMobile ? 'bold 14px Arial, sans-serif' : 'bold 14px "Arial Narrow", Arial, sans-serif';
+
+      guidance.corrections.slice(0, 2).forEach((correction) => {
+        const lm = landmarks[correction.landmarkIndex];
+        if (!lm || !lm.visibility || lm.visibility < 0.3) return;
+
+        const { x: jointX, y: jointY } = toCanvas(lm);
+
+        // Highlight the joint
+        ctx.strokeStyle = 'rgba(255, 100, 100, 0.9)';
+        ctx.lineWidth = 3;
+        ctx.beginPath();
+        ctx.arc(jointX, jointY, 14, 0, 2 * Math.PI);
+        ctx.stroke();
+
+        // Label on the outer side of the joint so it doesn't cover the body
+        const text = correction.message;
+        const textWidth = ctx.measureText(text).width * (isMobile ? 0.8 : 1) + (text.length - 1) * 0.5;
+        const isRightSide = jointX > canvas.width / 2;
+        const labelX = Math.max(8, Math.min(
+          canvas.width - textWidth - 8,
+          isRightSide ? jointX + 22 : jointX - 22 - textWidth
+        ));
+        const labelY = jointY + 5;
+
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+        ctx.fillRect(labelX - 6, labelY - 16, textWidth + 12, 22);
+        ctx.fillStyle = '#00FFFF'; // Neon blue
+        fillTextCompressed(ctx, text, labelX, labelY, 0.5, isMobile);
+      });
+    }
+  }, [landmarks, people, guidance, template, videoElement, viewportWidth, viewportHeight, showSkeleton, templateImageUrl, templateLandmarks, showTemplateOverlay, showTemplateSkeleton, autoCaptureProgress, mirrored, captureAspect]);
 
   return (
     <canvas
@@ -4,9 +4,19 @@ interface PoseGalleryProps {
   templates: PoseTemplate[];
   onSelectTemplate: (template: PoseTemplate) => void;
   onClose: () => void;
+  onCreateTemplate?: () => void;
+  onEditTemplate?: (template: PoseTemplate) => void;
+  onDeleteTemplate?: (template: PoseTemplate) => void;
 }
 
-export function PoseGallery({ templates, onSelectTemplate, onClose }: PoseGalleryProps) {
+export function PoseGallery({
+  templates,
+  onSelectTemplate,
+  onClose,
+  onCreateTemplate,
+  onEditTemplate,
+  onDeleteTemplate,
+}: PoseGalleryProps) {
   return (
     <div className="pose-gallery-modal" onClick={onClose}>
       <div className="pose-gallery-content" onClick={(e) => e.stopPropagation()}>
@@ -19,26 +29,61 @@ export function PoseGallery({ templates, onSelectTemplate, onClose }: PoseGaller
         <div className="pose-gallery-grid-container">
           <div className="pose-gallery-grid">
             {templates.map((template) => (
+              <div key={template.id} className="pose-gallery-item-wrapper">
+                <button
+                  onClick={() => {
+                    onSelectTemplate(template);
+                    onClose();
+                  }}
+                  className="pose-gallery-item"
+                >
+                  <img
+                    src={template.imagePath}
+                    alt={template.name}
+                    className="pose-gallery-image"
+                  />
+                  <p className="pose-gallery-name">{template.name}</p>
+                </button>
+                {template.isCustom && (
+                  <div className="pose-gallery-item-actions">
+                    {onEditTemplate && (
+                      <button
+                        onClick={() => onEditTemplate(template)}
+                        className="pose-gallery-item-action"
+                        aria-label={`Edit ${template.name}`}
+                      >
+                        Edit
+                      </button>
+                    )}
+                    {onDeleteTemplate && (
+                      <button
+                        onClick={() => {
+                          if (confirm(`Delete "${template.name}"?`)) {
+                            onDeleteTemplate(template);
+                          }
+                        }}
+                        className="pose-gallery-item-action"
+                        aria-label={`Delete ${template.name}`}
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+            {onCreateTemplate && (
               <button
-                key={template.id}
-                onClick={() => {
-                  onSelectTemplate(template);
-                  onClose();
-                }}
-                className="pose-gallery-item"
+                onClick={onCreateTemplate}
+                className="pose-gallery-item pose-gallery-item-new"
               >
-                <img
-                  src={template.imagePath}
-                  alt={template.name}
-                  className="pose-gallery-image"
-                />
-                <p className="pose-gallery-name">{template.name}</p>
+                <span className="pose-gallery-new-icon">+</span>
+                <p className="pose-gallery-name">New pose</p>
               </button>
-            ))}
+            )}
           </div>
         </div>
       </div>
     </div>
   );
 }
-
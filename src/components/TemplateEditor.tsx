@@ -0,0 +1,310 @@
+import { useEffect, useRef, useState } from 'react';
+import { type Landmark, type NormalizedPose, type PoseMatchMode, type TemplatePerson, POSE_LANDMARKS } from '../types/pose';
+import { type PoseTemplate, getMultiPersonPeople, getTemplateFramingTarget } from '../data/poseTemplates';
+import { type PhotoRecord } from '../utils/indexedDB';
+import { analyzeImagePose } from '../utils/poseUtils';
+import { type LandmarkerConfig } from '../utils/mediapipeConfig';
+
+// Body joints the user can pick as key landmarks for matching
+const SELECTABLE_LANDMARKS: { index: number; label: string }[] = [
+  { index: POSE_LANDMARKS.LEFT_SHOULDER, label: 'Left shoulder' },
+  { index: POSE_LANDMARKS.RIGHT_SHOULDER, label: 'Right shoulder' },
+  { index: POSE_LANDMARKS.LEFT_ELBOW, label: 'Left elbow' },
+  { index: POSE_LANDMARKS.RIGHT_ELBOW, label: 'Right elbow' },
+  { index: POSE_LANDMARKS.LEFT_WRIST, label: 'Left wrist' },
+  { index: POSE_LANDMARKS.RIGHT_WRIST, label: 'Right wrist' },
+  { index: POSE_LANDMARKS.LEFT_HIP, label: 'Left hip' },
+  { index: POSE_LANDMARKS.RIGHT_HIP, label: 'Right hip' },
+  { index: POSE_LANDMARKS.LEFT_KNEE, label: 'Left knee' },
+  { index: POSE_LANDMARKS.RIGHT_KNEE, label: 'Right knee' },
+  { index: POSE_LANDMARKS.LEFT_ANKLE, label: 'Left ankle' },
+  { index: POSE_LANDMARKS.RIGHT_ANKLE, label: 'Right ankle' },
+];
+
+// Pre-select joints the detector was confident about
+function getDefaultKeyLandmarks(landmarks: Landmark[]): number[] {
+  return SELECTABLE_LANDMARKS
+    .map(({ index }) => index)
+    .filter((index) => {
+      const lm = landmarks[index];
+      return lm && lm.visibility && lm.visibility > 0.5;
+    });
+}
+
+interface TemplateEditorProps {
+  template?: PoseTemplate | null; // Existing custom template to edit
+  photos: PhotoRecord[];
+  landmarkerConfig?: LandmarkerConfig; // Model used to analyze the chosen image
+  onSave: (template: PoseTemplate) => void;
+  onClose: () => void;
+}
+
+export function TemplateEditor({ template = null, photos, landmarkerConfig, onSave, onClose }: TemplateEditorProps) {
+  const [imageBlob, setImageBlob] = useState<Blob | null>(template?.imageBlob ?? null);
+  const [imageUrl, setImageUrl] = useState<string | null>(template?.imagePath ?? null);
+  const [landmarks, setLandmarks] = useState<Landmark[] | null>(template?.landmarks ?? null);
+  const [normalizedPose, setNormalizedPose] = useState<NormalizedPose | null>(template?.normalizedPose ?? null);
+  const [people, setPeople] = useState<TemplatePerson[] | undefined>(template?.people);
+  const [imageAspect, setImageAspect] = useState<number | undefined>(template?.imageAspect);
+  const [keyLandmarks, setKeyLandmarks] = useState<number[]>(template?.keyLandmarks ?? []);
+  const [name, setName] = useState(template?.name ?? '');
+  const [matchMode, setMatchMode] = useState<PoseMatchMode>(template?.matchMode ?? 'position');
+  const [allowMirror, setAllowMirror] = useState(template?.allowMirror ?? false);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Object URL created by this editor, revoked unless handed over on save
+  const ownedUrlRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    return () => {
+      if (ownedUrlRef.current) {
+        URL.revokeObjectURL(ownedUrlRef.current);
+      }
+    };
+  }, []);
+
+  const handleImageChosen = async (blob: Blob) => {
+    if (ownedUrlRef.current) {
+      URL.revokeObjectURL(ownedUrlRef.current);
+    }
+    const url = URL.createObjectURL(blob);
+    ownedUrlRef.current = url;
+
+    setImageBlob(blob);
+    setImageUrl(url);
+    setLandmarks(null);
+    setNormalizedPose(null);
+    setPeople(undefined);
+    setError(null);
+    setIsAnalyzing(true);
+
+    let result: Awaited<ReturnType<typeof analyzeImagePose>>;
+    try {
+      result = await analyzeImagePose(url, landmarkerConfig);
+    } catch (err) {
+      console.error('Failed to analyze template image:', err);
+      setError("Couldn't load the pose model. Connect to the internet once or choose another analysis model in capture settings.");
+      return;
+    } finally {
+      setIsAnalyzing(false);
+    }
+
+    if (!result) {
+      setError('No person found in this image. Try another one.');
+      return;
+    }
+
+    setLandmarks(result.landmarks);
+    setNormalizedPose(result.normalizedPose);
+    setPeople(getMultiPersonPeople(result.people));
+    setImageAspect(result.imageAspect);
+    setKeyLandmarks(getDefaultKeyLandmarks(result.landmarks));
+  };
+
+  const toggleKeyLandmark = (index: number) => {
+    setKeyLandmarks((prev) =>
+      prev.includes(index) ? prev.filter((i) => i !== index) : [...prev, index].sort((a, b) => a - b)
+    );
+  };
+
+  const handleSave = () => {
+    if (!imageBlob || !imageUrl || !landmarks || !normalizedPose) return;
+
+    // The saved template now owns the image URL
+    ownedUrlRef.current = null;
+
+    onSave({
+      id: template?.id ?? `custom-${Date.now()}`,
+      name: name.trim(),
+      description: template?.description ?? 'Custom pose',
+      keyLandmarks,
+      normalizedPose,
+      imagePath: imageUrl,
+      matchMode,
+      angleWeights: template?.angleWeights,
+      allowMirror,
+      landmarks,
+      people,
+      imageAspect,
+      framingTarget: getTemplateFramingTarget(people ?? [{ landmarks, normalizedPose }]),
+      isCustom: true,
+      imageBlob,
+    });
+  };
+
+  const canSave = !!landmarks && keyLandmarks.length > 0 && name.trim().length > 0 && !isAnalyzing;
+
+  return (
+    <div className="pose-gallery-modal" onClick={onClose}>
+      <div className="pose-gallery-content" onClick={(e) => e.stopPropagation()}>
+        <div className="pose-gallery-header">
+          <h2 className="pose-gallery-title">{template ? 'Edit Pose' : 'New Pose'}</h2>
+          <button onClick={onClose} className="pose-gallery-close-button">
+            ✕
+          </button>
+        </div>
+
+        <div className="pose-gallery-grid-container">
+          {!imageUrl ? (
+            <div className="template-editor-source">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="template-editor-button"
+              >
+                Choose image
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                className="template-editor-file-input"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) {
+                    handleImageChosen(file);
+                  }
+                }}
+              />
+              {photos.length > 0 && (
+                <>
+                  <p className="template-editor-hint">Or use a photo from your gallery</p>
+                  <div className="gallery-grid">
+                    {photos.map((photo) => (
+                      <button
+                        key={photo.id}
+                        onClick={() => handleImageChosen(photo.blob)}
+                        className="gallery-thumbnail-button"
+                      >
+                        <img src={photo.url} alt="Gallery photo" className="gallery-thumbnail" />
+                      </button>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          ) : (
+            <div className="template-editor-body">
+              <div className="template-editor-preview">
+                <img src={imageUrl} alt="Pose reference" className="template-editor-image" />
+                {landmarks && (
+                  <svg
+                    className="template-editor-landmarks"
+                    viewBox="0 0 1 1"
+                    preserveAspectRatio="none"
+                  >
+                    {/* Key landmarks apply to every person in a multi-person template */}
+                    {(people?.map((person) => person.landmarks) ?? [landmarks]).map((personLandmarks, personIndex) =>
+                      SELECTABLE_LANDMARKS.map(({ index, label }) => {
+                        const lm = personLandmarks[index];
+                        if (!lm) return null;
+                        const isSelected = keyLandmarks.includes(index);
+                        return (
+                          <circle
+                            key={`${personIndex}-${index}`}
+                            cx={lm.x}
+                            cy={lm.y}
+                            r={0.02}
+                            className={isSelected ? 'template-editor-point-active' : 'template-editor-point'}
+                            onClick={() => toggleKeyLandmark(index)}
+                          >
+                            <title>{label}</title>
+                          </circle>
+                        );
+                      })
+                    )}
+                  </svg>
+                )}
+                {isAnalyzing && (
+                  <div className="loading-overlay">
+                    <div className="loading-content">
+                      <div className="spinner"></div>
+                      <p>Analyzing pose...</p>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {error && <p className="template-editor-error">{error}</p>}
+
+              {landmarks && (
+                <>
+                  {people && (
+                    <p className="template-editor-hint">
+                      {people.length} people found - each one is matched to whoever stands in their place
+                    </p>
+                  )}
+                  <p className="template-editor-hint">Key landmarks used for matching</p>
+                  <div className="template-editor-landmark-list">
+                    {SELECTABLE_LANDMARKS.map(({ index, label }) => (
+                      <button
+                        key={index}
+                        onClick={() => toggleKeyLandmark(index)}
+                        className={`skeleton-toggle ${keyLandmarks.includes(index) ? 'active' : ''}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="template-editor-hint">Match by</p>
+                  <div className="template-editor-landmark-list">
+                    <button
+                      onClick={() => setMatchMode('position')}
+                      className={`skeleton-toggle ${matchMode === 'position' ? 'active' : ''}`}
+                    >
+                      Position
+                    </button>
+                    <button
+                      onClick={() => setMatchMode('angle')}
+                      className={`skeleton-toggle ${matchMode === 'angle' ? 'active' : ''}`}
+                    >
+                      Joint angles
+                    </button>
+                    <button
+                      onClick={() => setAllowMirror(!allowMirror)}
+                      className={`skeleton-toggle ${allowMirror ? 'active' : ''}`}
+                      title="Also match the left/right flipped pose"
+                    >
+                      Allow mirrored
+                    </button>
+                  </div>
+                  <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Pose name"
+                    className="template-editor-name"
+                  />
+                </>
+              )}
+
+              <div className="gallery-actions">
+                {!template && (
+                  <button
+                    onClick={() => {
+                      setImageUrl(null);
+                      setLandmarks(null);
+                      setPeople(undefined);
+                      setError(null);
+                    }}
+                    className="gallery-action-button gallery-action-delete"
+                  >
+                    Change image
+                  </button>
+                )}
+                <button
+                  onClick={handleSave}
+                  disabled={!canSave}
+                  className="gallery-action-button gallery-action-share"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { useRegisterSW } from 'virtual:pwa-register/react';
+
+/**
+ * Registers the service worker and offers to reload when a new build is ready
+ */
+export function UpdatePrompt() {
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    offlineReady: [offlineReady, setOfflineReady],
+    updateServiceWorker,
+  } = useRegisterSW({
+    onRegisterError(err) {
+      console.error('Service worker registration failed:', err);
+    },
+  });
+
+  if (!needRefresh && !offlineReady) return null;
+
+  const dismiss = () => {
+    setNeedRefresh(false);
+    setOfflineReady(false);
+  };
+
+  return (
+    <div className="update-prompt" role="status">
+      <p className="update-prompt-message">
+        {needRefresh ? 'A new version is available.' : 'Ready to work offline.'}
+      </p>
+      <div className="update-prompt-actions">
+        {needRefresh && (
+          <button onClick={() => updateServiceWorker(true)} className="skeleton-toggle active">
+            Reload
+          </button>
+        )}
+        <button onClick={dismiss} className="skeleton-toggle">
+          {needRefresh ? 'Later' : 'OK'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,15 @@
-import { type NormalizedPose, POSE_LANDMARKS } from '../types/pose';
+import {
+  type Landmark,
+  type NormalizedPose,
+  type JointAngleName,
+  type PoseMatchMode,
+  type TemplatePerson,
+  type VerticalFramingTargets,
+  type FramingTarget,
+  POSE_LANDMARKS,
+} from '../types/pose';
+import { normalizePose, measureFraming } from '../utils/poseUtils';
+import { templateLandmarks } from './templateLandmarks.generated';
 
 export type PoseTemplate = {
   id: string;
@@ -7,10 +18,101 @@ export type PoseTemplate = {
   keyLandmarks: number[];
   normalizedPose: NormalizedPose;
   imagePath: string;
+  matchMode?: PoseMatchMode; // Which score drives poseMatch (default 'position')
+  angleWeights?: Partial<Record<JointAngleName, number>>; // Per-joint weights for angle matching
+  allowMirror?: boolean; // Also accept the left/right flipped pose
+  verticalFraming?: VerticalFramingTargets; // Where the subject belongs vertically in the crop
+  framingTarget?: FramingTarget; // Subject size and position in the reference image, aimed for in the crop
+  landmarks?: Landmark[]; // Raw landmarks (0-1) relative to the image, when already known
+  imageAspect?: number; // Image width/height, to compare angles and framing across aspect ratios
+  people?: TemplatePerson[]; // Every body in a multi-person template, left to right (first one also fills landmarks/normalizedPose)
+  isCustom?: boolean; // User-created template stored in IndexedDB
+  imageBlob?: Blob; // Source image for custom templates
 }
 
-// Normalized poses (center at hip midpoint, scaled by shoulder-hip distance)
-// These are approximate templates - in production, you'd capture these from real poses
+/**
+ * Look up the landmarks precomputed from a template image by `npm run generate:poses`.
+ * Templates without generated data get an empty pose and are analyzed at runtime instead.
+ */
+function precomputedPose(
+  id: string
+): Pick<PoseTemplate, 'landmarks' | 'normalizedPose' | 'people' | 'framingTarget' | 'imageAspect'> {
+  const { aspect, people } = templateLandmarks[id] ?? { people: [] };
+  if (people.length === 0) {
+    return { normalizedPose: { landmarks: [], center: { x: 0, y: 0 }, scale: 1 } };
+  }
+
+  const templatePeople = people.map((landmarks) => ({ landmarks, normalizedPose: normalizePose(landmarks) }));
+  return {
+    landmarks: templatePeople[0].landmarks,
+    normalizedPose: templatePeople[0].normalizedPose,
+    people: getMultiPersonPeople(templatePeople),
+    framingTarget: getTemplateFramingTarget(templatePeople),
+    imageAspect: aspect,
+  };
+}
+
+/**
+ * Framing to aim for, read off the reference image (which shows the intended crop)
+ */
+export function getTemplateFramingTarget(people: TemplatePerson[]): FramingTarget | undefined {
+  return measureFraming(people.map((person) => person.landmarks)) ?? undefined;
+}
+
+/**
+ * The `people` field for a template - only set when the image shows more than one person
+ */
+export function getMultiPersonPeople(people: TemplatePerson[]): TemplatePerson[] | undefined {
+  return people.length > 1 ? people : undefined;
+}
+
+// Angle matching weights emphasizing the joints each kind of pose is about
+const FULL_BODY_ANGLE_WEIGHTS: Partial<Record<JointAngleName, number>> = {
+  'left-hip': 2,
+  'right-hip': 2,
+  'left-knee': 2,
+  'right-knee': 2,
+  'torso-lean': 1,
+  'left-shoulder': 0.5,
+  'right-shoulder': 0.5,
+};
+
+const THREE_QUARTER_ANGLE_WEIGHTS: Partial<Record<JointAngleName, number>> = {
+  'left-elbow': 2,
+  'right-elbow': 2,
+  'left-shoulder': 2,
+  'right-shoulder': 2,
+  'torso-lean': 1,
+  'left-hip': 0.5,
+  'right-hip': 0.5,
+};
+
+const SEATED_ANGLE_WEIGHTS: Partial<Record<JointAngleName, number>> = {
+  'left-knee': 2,
+  'right-knee': 2,
+  'left-hip': 2,
+  'right-hip': 2,
+  'torso-lean': 1,
+  'left-shoulder': 0.5,
+  'right-shoulder': 0.5,
+};
+
+// Vertical framing targets, as fractions of the output crop height
+const FULL_BODY_FRAMING: VerticalFramingTargets = {
+  headroom: { min: 0.03, max: 0.12 },
+  footroom: { min: 0.02, max: 0.1 },
+};
+
+const THREE_QUARTER_FRAMING: VerticalFramingTargets = {
+  headroom: { min: 0.04, max: 0.15 },
+  eyeLine: { min: 0.2, max: 0.4 }, // Around the upper third line
+};
+
+const SEATED_FRAMING: VerticalFramingTargets = {
+  headroom: { min: 0.05, max: 0.25 },
+  footroom: { min: 0.03, max: 0.15 },
+};
+
 export const poseTemplates: PoseTemplate[] = [
   {
     id: 'standing-fullbody1',
@@ -26,22 +128,10 @@ export const poseTemplates: PoseTemplate[] = [
       POSE_LANDMARKS.LEFT_ANKLE,
       POSE_LANDMARKS.RIGHT_ANKLE,
     ],
-    normalizedPose: {
-      center: { x: 0, y: 0 },
-      scale: 1,
-      landmarks: [
-        // Approximate normalized positions for full body standing pose
-        { x: 0, y: -0.4 }, // Left shoulder
-        { x: 0, y: -0.4 }, // Right shoulder
-        { x: -0.05, y: 0 }, // Left hip
-        { x: 0.05, y: 0 }, // Right hip
-        { x: -0.05, y: 0.25 }, // Left knee
-        { x: 0.05, y: 0.25 }, // Right knee
-        { x: -0.05, y: 0.5 }, // Left ankle
-        { x: 0.05, y: 0.5 }, // Right ankle
-      ],
-    },
     imagePath: '/poses/RAPL Pose-standingfullbody1.jpg',
+    angleWeights: FULL_BODY_ANGLE_WEIGHTS,
+    verticalFraming: FULL_BODY_FRAMING,
+    ...precomputedPose('standing-fullbody1'),
   },
   {
     id: 'standing-fullbody2',
@@ -57,21 +147,10 @@ export const poseTemplates: PoseTemplate[] = [
       POSE_LANDMARKS.LEFT_ANKLE,
       POSE_LANDMARKS.RIGHT_ANKLE,
     ],
-    normalizedPose: {
-      center: { x: 0, y: 0 },
-      scale: 1,
-      landmarks: [
-        { x: 0, y: -0.4 }, // Left shoulder
-        { x: 0, y: -0.4 }, // Right shoulder
-        { x: -0.05, y: 0 }, // Left hip
-        { x: 0.05, y: 0 }, // Right hip
-        { x: -0.05, y: 0.25 }, // Left knee
-        { x: 0.05, y: 0.25 }, // Right knee
-        { x: -0.05, y: 0.5 }, // Left ankle
-        { x: 0.05, y: 0.5 }, // Right ankle
-      ],
-    },
     imagePath: '/poses/RAPL Pose-standingfullbody2.jpg',
+    angleWeights: FULL_BODY_ANGLE_WEIGHTS,
+    verticalFraming: FULL_BODY_FRAMING,
+    ...precomputedPose('standing-fullbody2'),
   },
   {
     id: 'standing-34body1',
@@ -87,21 +166,11 @@ export const poseTemplates: PoseTemplate[] = [
       POSE_LANDMARKS.LEFT_WRIST,
       POSE_LANDMARKS.RIGHT_WRIST,
     ],
-    normalizedPose: {
-      center: { x: 0, y: 0 },
-      scale: 1,
-      landmarks: [
-        { x: -0.1, y: -0.3 }, // Left shoulder
-        { x: 0.1, y: -0.3 }, // Right shoulder
-        { x: -0.05, y: 0 }, // Left hip
-        { x: 0.05, y: 0 }, // Right hip
-        { x: -0.15, y: -0.15 }, // Left elbow
-        { x: 0.15, y: -0.15 }, // Right elbow
-        { x: -0.2, y: 0 }, // Left wrist
-        { x: 0.2, y: 0 }, // Right wrist
-      ],
-    },
     imagePath: '/poses/RAPL Pose-standing34body1.jpg',
+    angleWeights: THREE_QUARTER_ANGLE_WEIGHTS,
+    verticalFraming: THREE_QUARTER_FRAMING,
+    allowMirror: true,
+    ...precomputedPose('standing-34body1'),
   },
   {
     id: 'standing-34body2',
@@ -117,21 +186,11 @@ export const poseTemplates: PoseTemplate[] = [
       POSE_LANDMARKS.LEFT_WRIST,
       POSE_LANDMARKS.RIGHT_WRIST,
     ],
-    normalizedPose: {
-      center: { x: 0, y: 0 },
-      scale: 1,
-      landmarks: [
-        { x: -0.1, y: -0.3 }, // Left shoulder
-        { x: 0.1, y: -0.3 }, // Right shoulder
-        { x: -0.05, y: 0 }, // Left hip
-        { x: 0.05, y: 0 }, // Right hip
-        { x: -0.15, y: -0.15 }, // Left elbow
-        { x: 0.15, y: -0.15 }, // Right elbow
-        { x: -0.2, y: 0 }, // Left wrist
-        { x: 0.2, y: 0 }, // Right wrist
-      ],
-    },
     imagePath: '/poses/RAPL Pose-standing34body2.jpg',
+    angleWeights: THREE_QUARTER_ANGLE_WEIGHTS,
+    verticalFraming: THREE_QUARTER_FRAMING,
+    allowMirror: true,
+    ...precomputedPose('standing-34body2'),
   },
   {
     id: 'sitting-floor1',
@@ -145,19 +204,13 @@ export const poseTemplates: PoseTemplate[] = [
       POSE_LANDMARKS.LEFT_KNEE,
       POSE_LANDMARKS.RIGHT_KNEE,
     ],
-    normalizedPose: {
-      center: { x: 0, y: 0 },
-      scale: 1,
-      landmarks: [
-        { x: -0.1, y: -0.35 }, // Left shoulder
-        { x: 0.1, y: -0.35 }, // Right shoulder
-        { x: -0.05, y: 0 }, // Left hip
-        { x: 0.05, y: 0 }, // Right hip
-        { x: -0.1, y: 0.2 }, // Left knee (bent)
-        { x: 0.1, y: 0.2 }, // Right knee (bent)
-      ],
-    },
     imagePath: '/poses/RAPL Pose-sittingfloor1.jpg',
+    // Seated poses differ mostly in how the legs fold, which angles capture best
+    matchMode: 'angle',
+    angleWeights: SEATED_ANGLE_WEIGHTS,
+    verticalFraming: SEATED_FRAMING,
+    allowMirror: true,
+    ...precomputedPose('sitting-floor1'),
   },
   {
     id: 'sitting-floor2',
@@ -171,19 +224,13 @@ export const poseTemplates: PoseTemplate[] = [
       POSE_LANDMARKS.LEFT_KNEE,
       POSE_LANDMARKS.RIGHT_KNEE,
     ],
-    normalizedPose: {
-      center: { x: 0, y: 0 },
-      scale: 1,
-      landmarks: [
-        { x: -0.1, y: -0.35 }, // Left shoulder
-        { x: 0.1, y: -0.35 }, // Right shoulder
-        { x: -0.05, y: 0 }, // Left hip
-        { x: 0.05, y: 0 }, // Right hip
-        { x: -0.1, y: 0.2 }, // Left knee (bent)
-        { x: 0.1, y: 0.2 }, // Right knee (bent)
-      ],
-    },
     imagePath: '/poses/RAPL Pose-sittingfloor2.jpg',
+    // Seated poses differ mostly in how the legs fold, which angles capture best
+    matchMode: 'angle',
+    angleWeights: SEATED_ANGLE_WEIGHTS,
+    verticalFraming: SEATED_FRAMING,
+    allowMirror: true,
+    ...precomputedPose('sitting-floor2'),
   },
 ];
 
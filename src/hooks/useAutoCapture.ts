@@ -0,0 +1,115 @@
+import { useEffect, useRef, useState } from 'react';
+import { type PoseGuidance } from '../types/pose';
+import { isFramingGood } from '../utils/poseUtils';
+
+export type AutoCaptureSettings = {
+  threshold: number; // Minimum poseMatch (0-1) to start the countdown
+  dwellMs: number; // How long the pose must hold before firing
+  cooldownMs: number; // Minimum gap between automatic captures
+}
+
+export const DEFAULT_AUTO_CAPTURE_SETTINGS: AutoCaptureSettings = {
+  threshold: 0.75,
+  dwellMs: 1500,
+  cooldownMs: 3000,
+};
+
+const AUTO_CAPTURE_STORAGE_KEY = 'rightangle-auto-capture';
+
+export function loadAutoCaptureSettings(): AutoCaptureSettings {
+  try {
+    const stored = localStorage.getItem(AUTO_CAPTURE_STORAGE_KEY);
+    if (stored) {
+      return { ...DEFAULT_AUTO_CAPTURE_SETTINGS, ...(JSON.parse(stored) as Partial<AutoCaptureSettings>) };
+    }
+  } catch (err) {
+    console.warn('Failed to read auto-capture settings:', err);
+  }
+  return DEFAULT_AUTO_CAPTURE_SETTINGS;
+}
+
+export function saveAutoCaptureSettings(settings: AutoCaptureSettings) {
+  try {
+    localStorage.setItem(AUTO_CAPTURE_STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn('Failed to save auto-capture settings:', err);
+  }
+}
+
+// Progress is quantized so the HUD isn't redrawn on every animation frame
+const PROGRESS_STEPS = 30;
+
+/**
+ * Hands-free shutter: fires onCapture once the pose match and framing
+ * have held for the dwell period. Returns countdown progress (0-1),
+ * or null when no countdown is running.
+ */
+export function useAutoCapture(
+  guidance: PoseGuidance | null,
+  onCapture: () => void,
+  enabled: boolean,
+  isCapturing: boolean,
+  settings: AutoCaptureSettings = DEFAULT_AUTO_CAPTURE_SETTINGS
+) {
+  const { threshold, dwellMs, cooldownMs } = settings;
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const onCaptureRef = useRef(onCapture);
+  const lastCaptureTimeRef = useRef<number>(-Infinity);
+
+  useEffect(() => {
+    onCaptureRef.current = onCapture;
+  }, [onCapture]);
+
+  const isReady =
+    enabled &&
+    !isCapturing &&
+    guidance !== null &&
+    guidance.poseMatch >= threshold &&
+    isFramingGood(guidance);
+
+  // Run the dwell countdown while the pose holds; any break resets it
+  useEffect(() => {
+    if (!isReady) {
+      setProgress(null);
+      return;
+    }
+
+    let animationFrame: number;
+    let holdStart: number | null = null;
+
+    const tick = (now: number) => {
+      if (now - lastCaptureTimeRef.current < cooldownMs) {
+        holdStart = null;
+        setProgress(null);
+        animationFrame = requestAnimationFrame(tick);
+        return;
+      }
+
+      if (holdStart === null) {
+        holdStart = now;
+      }
+
+      const elapsed = (now - holdStart) / dwellMs;
+      if (elapsed >= 1) {
+        lastCaptureTimeRef.current = now;
+        holdStart = null;
+        setProgress(null);
+        onCaptureRef.current();
+        animationFrame = requestAnimationFrame(tick);
+        return;
+      }
+
+      setProgress(Math.floor(elapsed * PROGRESS_STEPS) / PROGRESS_STEPS);
+      animationFrame = requestAnimationFrame(tick);
+    };
+
+    animationFrame = requestAnimationFrame(tick);
+
+    return () => {
+      cancelAnimationFrame(animationFrame);
+    };
+  }, [isReady, dwellMs, cooldownMs]);
+
+  return progress;
+}
@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useState } from 'react';
+
+export type OrientationPermission = 'granted' | 'denied' | 'prompt' | 'unsupported';
+
+// iOS 13+ gates motion sensors behind a permission prompt, which isn't in TypeScript's DOM lib
+type DeviceOrientationEventWithPermission = typeof DeviceOrientationEvent & {
+  requestPermission?: () => Promise<'granted' | 'denied'>;
+};
+
+// Readings are smoothed and rounded so the app doesn't re-render on every sensor event
+const SMOOTHING = 0.2;
+const STEP_DEGREES = 0.5;
+
+// Share of gravity that must lie in the screen plane - any flatter and "level" is meaningless
+const MIN_UPRIGHT = 0.5;
+
+/**
+ * Phone roll (degrees) from gravity in the screen plane: 0 when level,
+ * positive when turned clockwise. Null when the phone lies too flat to tell.
+ */
+function computeDeviceRoll(beta: number, gamma: number, screenAngle: number): number | null {
+  const toRadians = Math.PI / 180;
+  // Gravity in device coordinates (x right, y up the screen), from the W3C Z-X'-Y'' angles
+  const gravityX = Math.cos(beta * toRadians) * Math.sin(gamma * toRadians);
+  const gravityY = -Math.sin(beta * toRadians);
+  if (Math.hypot(gravityX, gravityY) < MIN_UPRIGHT) return null;
+
+  // Measure against the screen's current "down", which turns with landscape orientation
+  const roll = Math.atan2(gravityX, -gravityY) / toRadians + screenAngle;
+  return ((roll + 540) % 360) - 180;
+}
+
+function getInitialPermission(): OrientationPermission {
+  if (typeof DeviceOrientationEvent === 'undefined') return 'unsupported';
+  return (DeviceOrientationEvent as DeviceOrientationEventWithPermission).requestPermission ? 'prompt' : 'granted';
+}
+
+/**
+ * Track how far the phone is rolled from level using DeviceOrientationEvent.
+ * On iOS, call requestPermission from a user gesture before readings arrive.
+ * `roll` stays null on devices without motion sensors.
+ */
+export function useDeviceOrientation(enabled: boolean) {
+  const [permission, setPermission] = useState<OrientationPermission>(getInitialPermission);
+  const [roll, setRoll] = useState<number | null>(null);
+
+  const requestPermission = useCallback(async () => {
+    const request = (DeviceOrientationEvent as DeviceOrientationEventWithPermission).requestPermission;
+    if (!request) return;
+
+    try {
+      setPermission(await request.call(DeviceOrientationEvent));
+    } catch (err) {
+      console.warn('Motion sensor permission request failed:', err);
+      setPermission('denied');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled || permission !== 'granted') return;
+
+    let smoothed: number | null = null;
+
+    const handleOrientation = (event: DeviceOrientationEvent) => {
+      // Desktop browsers fire a single event with null angles
+      if (event.beta === null || event.gamma === null) return;
+
+      const next = computeDeviceRoll(event.beta, event.gamma, screen.orientation?.angle ?? 0);
+      smoothed = next === null || smoothed === null ? next : smoothed + (next - smoothed) * SMOOTHING;
+      setRoll(smoothed === null ? null : Math.round(smoothed / STEP_DEGREES) * STEP_DEGREES);
+    };
+
+    window.addEventListener('deviceorientation', handleOrientation);
+    return () => {
+      window.removeEventListener('deviceorientation', handleOrientation);
+      setRoll(null);
+    };
+  }, [enabled, permission]);
+
+  return { roll, permission, requestPermission };
+}
@@ -1,117 +1,249 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
-import { PoseLandmarker, FilesetResolver } from '@mediapipe/tasks-vision';
 import { type PoseDetection } from '../types/pose';
+import {
+  type SmoothingSettings,
+  type LandmarkSmoother,
+  createLandmarkSmoother,
+  DEFAULT_SMOOTHING_SETTINGS,
+} from '../utils/landmarkSmoothing';
+import {
+  type FrameRateStats,
+  createFrameRateController,
+} from '../utils/frameRateController';
+import { type LandmarkerConfig, DEFAULT_DETECTION_SETTINGS } from '../utils/mediapipeConfig';
+import { sortPeopleLeftToRight } from '../utils/poseUtils';
+import { type PoseWorkerRequest, type PoseWorkerResponse } from '../workers/poseWorker';
 
-// Detect mobile device
-const isMobile = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent) ||
-  (typeof window !== 'undefined' && window.innerWidth <= 768);
+// Treat a low, discharging battery as battery saver - browsers don't expose the setting itself
+const LOW_BATTERY_LEVEL = 0.2;
 
-// Reduce FPS on mobile for better performance
-const TARGET_FPS = isMobile ? 8 : 12; // 8 FPS on mobile, 12 FPS on desktop
-const FRAME_INTERVAL = 1000 / TARGET_FPS;
+// Battery Status API isn't in TypeScript's DOM lib
+type BatteryManager = EventTarget & {
+  charging: boolean;
+  level: number;
+}
+
+/**
+ * Copy the current video frame into something we can transfer to the worker
+ */
+async function grabVideoFrame(video: HTMLVideoElement): Promise<VideoFrame | ImageBitmap> {
+  if (typeof VideoFrame !== 'undefined') {
+    return new VideoFrame(video);
+  }
+  return createImageBitmap(video);
+}
 
-export function usePoseLandmarker(videoElement: HTMLVideoElement | null, isActive: boolean) {
-  const [landmarker, setLandmarker] = useState<PoseLandmarker | null>(null);
+/**
+ * Run pose detection on a video element in a Web Worker.
+ * Tracks up to `maxPeople` people, ordered left to right in the frame.
+ * Landmarks are smoothed over time unless `smoothing` is null.
+ */
+export function usePoseLandmarker(
+  videoElement: HTMLVideoElement | null,
+  isActive: boolean,
+  config: LandmarkerConfig = DEFAULT_DETECTION_SETTINGS.video,
+  maxPeople: number = 1,
+  smoothing: SmoothingSettings | null = DEFAULT_SMOOTHING_SETTINGS
+) {
+  const { model, delegate } = config;
+  const [isReady, setIsReady] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [latestDetection, setLatestDetection] = useState<PoseDetection | null>(null);
   const [hasPerson, setHasPerson] = useState(false);
+  const [frameRate] = useState(createFrameRateController);
+  const [stats, setStats] = useState<FrameRateStats>(frameRate.getStats);
+  const [isPageVisible, setIsPageVisible] = useState(document.visibilityState === 'visible');
 
+  const workerRef = useRef<Worker | null>(null);
+  const isFrameInFlightRef = useRef(false);
+  const isDropCountedRef = useRef(false); // One drop per missed frame slot, not per animation frame
   const lastFrameTimeRef = useRef<number>(0);
   const animationFrameRef = useRef<number | null>(null);
+  const smoothingRef = useRef(smoothing);
+  const smoothersRef = useRef<LandmarkSmoother[]>([]); // One per person, in left-to-right order
+
+  // Rebuild the smoothers when their settings change
+  useEffect(() => {
+    smoothingRef.current = smoothing;
+    smoothersRef.current = [];
+  }, [smoothing]);
 
-  // Initialize MediaPipe Pose Landmarker
+  // Pause detection while the tab is hidden
   useEffect(() => {
+    const handleVisibilityChange = () => {
+      const visible = document.visibilityState === 'visible';
+      frameRate.setThrottle('hidden', !visible);
+      setStats(frameRate.getStats());
+      setIsPageVisible(visible);
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [frameRate]);
+
+  // Cap the rate when the battery is low and not charging
+  useEffect(() => {
+    const getBattery = (navigator as Navigator & { getBattery?: () => Promise<BatteryManager> }).getBattery;
+    if (!getBattery) return;
+
+    let battery: BatteryManager | null = null;
     let isMounted = true;
 
-    async function initLandmarker() {
-      try {
-        setIsLoading(true);
-        setError(null);
-
-        const vision = await FilesetResolver.forVisionTasks(
-          'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@latest/wasm'
-        );
-
-        const poseLandmarker = await PoseLandmarker.createFromOptions(vision, {
-          baseOptions: {
-            modelAssetPath: `https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_lite/float16/1/pose_landmarker_lite.task`,
-            delegate: isMobile ? 'CPU' : 'GPU', // Use CPU on mobile for better stability
-          },
-          runningMode: 'VIDEO',
-          numPoses: 1,
-          minPoseDetectionConfidence: 0.5,
-          minPosePresenceConfidence: 0.5,
-          minTrackingConfidence: 0.5,
-        });
-
-        if (isMounted) {
-          setLandmarker(poseLandmarker);
-          setIsLoading(false);
+    const handleBatteryChange = () => {
+      if (!battery) return;
+      frameRate.setThrottle('battery-saver', !battery.charging && battery.level <= LOW_BATTERY_LEVEL);
+      setStats(frameRate.getStats());
+    };
+
+    getBattery.call(navigator).then((manager) => {
+      if (!isMounted) return;
+      battery = manager;
+      battery.addEventListener('chargingchange', handleBatteryChange);
+      battery.addEventListener('levelchange', handleBatteryChange);
+      handleBatteryChange();
+    }).catch((err) => {
+      console.warn('Battery status unavailable:', err);
+    });
+
+    return () => {
+      isMounted = false;
+      battery?.removeEventListener('chargingchange', handleBatteryChange);
+      battery?.removeEventListener('levelchange', handleBatteryChange);
+    };
+  }, [frameRate]);
+
+  // Start the detection worker and load MediaPipe Pose Landmarker inside it.
+  // Changing the model or delegate starts a fresh worker.
+  useEffect(() => {
+    setIsReady(false);
+    setIsLoading(true);
+    setError(null);
+
+    const worker = new Worker(new URL('../workers/poseWorker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+
+    worker.onmessage = (event: MessageEvent<PoseWorkerResponse>) => {
+      const message = event.data;
+
+      if (message.type === 'ready') {
+        setIsReady(true);
+        setIsLoading(false);
+      } else if (message.type === 'error') {
+        setError(message.message);
+        setIsLoading(false);
+      } else if (message.type === 'skipped') {
+        isFrameInFlightRef.current = false;
+        frameRate.recordDrop();
+      } else {
+        isFrameInFlightRef.current = false;
+        const now = performance.now();
+        if (frameRate.recordResult(message.inferenceMs, now - message.timestamp, now)) {
+          setStats(frameRate.getStats());
         }
-      } catch (err) {
-        console.error('Failed to initialize pose landmarker:', err);
-        if (isMounted) {
-          setError(err instanceof Error ? err.message : 'Failed to load pose detection');
-          setIsLoading(false);
+
+        const people = sortPeopleLeftToRight(message.people);
+        if (people.length > 0) {
+          // Smoothers follow people by position - start over when someone enters or leaves
+          // so we don't blend one person's pose into another's
+          const settings = smoothingRef.current;
+          if (settings && smoothersRef.current.length !== people.length) {
+            smoothersRef.current = people.map(() => createLandmarkSmoother(settings));
+          }
+          const smoothed = people.map((landmarks, index) =>
+            smoothersRef.current[index]?.smooth(landmarks, message.timestamp) ?? landmarks
+          );
+          setLatestDetection({
+            landmarks: smoothed[0],
+            people: smoothed,
+            rawPeople: people,
+            timestamp: message.timestamp,
+          });
+          setHasPerson(true);
+        } else {
+          // Don't blend the next person's pose with the last one
+          smoothersRef.current = [];
+          setHasPerson(false);
         }
       }
-    }
+    };
+
+    worker.onerror = (event) => {
+      console.error('Pose worker error:', event);
+      setError(event.message || 'Failed to start pose detection');
+      setIsLoading(false);
+    };
 
-    initLandmarker();
+    const init: PoseWorkerRequest = { type: 'init', config: { model, delegate } };
+    worker.postMessage(init);
 
     return () => {
-      isMounted = false;
+      worker.terminate();
+      workerRef.current = null;
+      isFrameInFlightRef.current = false;
     };
+  }, [frameRate, model, delegate]);
+
+  // Tell the worker how many people to look for once it's ready
+  useEffect(() => {
+    if (!isReady) return;
+    const request: PoseWorkerRequest = { type: 'configure', numPoses: maxPeople };
+    workerRef.current?.postMessage(request);
+  }, [isReady, maxPeople]);
+
+  // Send the next frame to the worker
+  const sendFrame = useCallback(async (video: HTMLVideoElement, timestamp: number) => {
+    const worker = workerRef.current;
+    if (!worker) return;
+
+    isFrameInFlightRef.current = true;
+    isDropCountedRef.current = false;
+    try {
+      const frame = await grabVideoFrame(video);
+      const request: PoseWorkerRequest = { type: 'detect', frame, timestamp };
+      worker.postMessage(request, [frame]); // Transfer, don't copy
+    } catch (err) {
+      console.error('Failed to grab video frame:', err);
+      isFrameInFlightRef.current = false;
+    }
   }, []);
 
-  // Detection loop
+  // Detection loop - only one frame is in the worker at a time
   const detectPose = useCallback(() => {
-    if (!landmarker || !videoElement || !isActive) {
+    if (!isReady || !videoElement || !isActive) {
       return;
     }
 
     const now = performance.now();
-    if (now - lastFrameTimeRef.current < FRAME_INTERVAL) {
+    if (now - lastFrameTimeRef.current < frameRate.getFrameInterval()) {
       animationFrameRef.current = requestAnimationFrame(detectPose);
       return;
     }
 
-    lastFrameTimeRef.current = now;
+    // The slot for the next frame arrived but the worker is still busy
+    if (isFrameInFlightRef.current) {
+      if (!isDropCountedRef.current) {
+        frameRate.recordDrop();
+        isDropCountedRef.current = true;
+      }
+      animationFrameRef.current = requestAnimationFrame(detectPose);
+      return;
+    }
 
-    try {
-      if (videoElement.readyState >= 2) {
-        // Convert video time to milliseconds
-        const videoTime = videoElement.currentTime * 1000;
-        const result = landmarker.detectForVideo(videoElement, videoTime);
-
-        if (result.landmarks && result.landmarks.length > 0) {
-          const landmarks = result.landmarks[0].map((lm) => ({
-            x: lm.x,
-            y: lm.y,
-            z: lm.z,
-            visibility: lm.visibility,
-          }));
+    lastFrameTimeRef.current = now;
 
-          setLatestDetection({
-            landmarks,
-            timestamp: now,
-          });
-          setHasPerson(true);
-        } else {
-          setHasPerson(false);
-        }
-      }
-    } catch (err) {
-      console.error('Pose detection error:', err);
+    if (videoElement.readyState >= 2) {
+      sendFrame(videoElement, now);
     }
 
     animationFrameRef.current = requestAnimationFrame(detectPose);
-  }, [landmarker, videoElement, isActive]);
+  }, [isReady, videoElement, isActive, sendFrame, frameRate]);
 
   // Start/stop detection loop
   useEffect(() => {
-    if (isActive && landmarker && videoElement) {
+    if (isActive && isReady && isPageVisible && videoElement) {
       animationFrameRef.current = requestAnimationFrame(detectPose);
     }
 
@@ -121,14 +253,13 @@ export function usePoseLandmarker(videoElement: HTMLVideoElement | null, isActiv
         animationFrameRef.current = null;
       }
     };
-  }, [isActive, landmarker, videoElement, detectPose]);
+  }, [isActive, isReady, isPageVisible, videoElement, detectPose]);
 
   return {
-    landmarker,
     isLoading,
     error,
     latestDetection,
     hasPerson,
+    stats,
   };
 }
-
@@ -43,20 +43,150 @@ export type Landmark = {
 }
 
 export type PoseDetection = {
-  landmarks: Landmark[];
+  landmarks: Landmark[]; // First person in `people`
+  people: Landmark[][]; // Everyone detected, ordered left to right in the video frame
+  rawPeople: Landmark[][]; // The same people as MediaPipe reported them, before smoothing
   timestamp: number;
 }
 
+export type BoundingBox = {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  width: number;
+  height: number;
+  centerX: number;
+  centerY: number;
+}
+
+export type FrameEdge = 'left' | 'right' | 'top' | 'bottom';
+
+export type PersonCutOff = {
+  person: number; // Index of the person, counting left to right on screen
+  edges: FrameEdge[];
+}
+
+export type CropWarning = {
+  landmarkIndex: number;
+  edge: FrameEdge; // Crop edge doing the cutting
+  position: { x: number; y: number }; // Landmark relative to the output crop (0-1 inside it)
+  message: string; // e.g. "Cropped at left knee"
+}
+
+// Size and position of the visible subject (or group) within a frame, as fractions of it
+export type FramingTarget = {
+  subjectHeight: number; // Including any part beyond the frame edges
+  centerX: number; // 0.5 = centered
+  centerY: number;
+}
+
+// Range as fractions (0-1) of the output crop height
+export type FramingRange = {
+  min: number;
+  max: number;
+}
+
+// Where a template wants the subject vertically; unset parts aren't checked
+export type VerticalFramingTargets = {
+  headroom?: FramingRange; // Gap above the top of the head
+  footroom?: FramingRange; // Gap below the feet (full-body poses)
+  eyeLine?: FramingRange; // Eye height from the top - the upper third line sits at 0.33
+}
+
+// Tilting suits close framing; moving the phone keeps full-body proportions undistorted
+export type VerticalHint = 'good' | 'tilt-up' | 'tilt-down' | 'raise-phone' | 'lower-phone';
+
+export type VerticalGuidance = {
+  headroom: number | null; // Measured, as fractions of the crop height; null when not visible
+  footroom: number | null;
+  eyeLine: number | null;
+  hint: VerticalHint;
+}
+
+export type GroupGuidance = {
+  personCount: number;
+  selectedPerson: number; // Index of the person matched against the template
+  bounds: BoundingBox; // Combined box around everyone, 0-1 in output crop coordinates
+  cutOff: PersonCutOff[]; // People crossing an edge of the output crop
+}
+
 export type NormalizedPose = {
   landmarks: Landmark[];
   center: { x: number; y: number };
   scale: number;
 }
 
+// One body in a multi-person template
+export type TemplatePerson = {
+  landmarks: Landmark[]; // Raw (0-1) relative to the template image
+  normalizedPose: NormalizedPose;
+}
+
+export type PersonPoseMatch = {
+  person: number; // Index of the detected person, counting left to right on screen
+  slot: number; // Index of the template person they were assigned to
+  poseMatch: number; // 0-1
+}
+
+export type LimbName = 'left-arm' | 'right-arm' | 'left-leg' | 'right-leg' | 'shoulders' | 'hips';
+
+export type JointAngleName =
+  | 'left-elbow'
+  | 'right-elbow'
+  | 'left-shoulder'
+  | 'right-shoulder'
+  | 'left-hip'
+  | 'right-hip'
+  | 'left-knee'
+  | 'right-knee'
+  | 'torso-lean';
+
+// How a template scores the live pose: landmark positions or joint angles
+export type PoseMatchMode = 'position' | 'angle';
+
+// Which way round the template matched best
+export type PoseOrientation = 'original' | 'mirrored';
+
+export type LandmarkMatch = {
+  index: number;
+  dx: number; // Live minus template x, in normalized pose units
+  dy: number; // Live minus template y (positive = live point is lower)
+  error: number; // Euclidean distance
+}
+
+export type LimbMatch = {
+  limb: LimbName;
+  error: number; // Mean error of the limb's landmarks
+  landmarks: LandmarkMatch[];
+}
+
+export type PoseMatchResult = {
+  score: number; // 0-1, from key landmarks only
+  landmarks: LandmarkMatch[];
+  limbs: LimbMatch[];
+}
+
+export type PoseCorrection = {
+  limb: LimbName;
+  message: string; // e.g. "Raise left arm"
+  landmarkIndex: number; // Joint to show the hint next to
+}
+
 export type PoseGuidance = {
   centerOffset: number; // -1 (left) to 1 (right)
+  centered: boolean; // centerOffset within tolerance, with hysteresis
+  vertical: VerticalGuidance; // Headroom, feet and eye line against the template's targets
   distance: 'too-close' | 'good' | 'too-far';
-  tilt: number; // degrees
-  poseMatch: number; // 0-1
+  tilt: number; // Subject's shoulder tilt from level in degrees, positive when sloping down to the right on screen
+  deviceTilt: number | null; // Phone roll from level in degrees (positive = clockwise), null without motion sensors
+  poseMatch: number; // 0-1, from the template's match mode
+  positionMatch: number; // 0-1, normalized landmark distance
+  angleMatch: number; // 0-1, weighted joint angle similarity
+  orientation: PoseOrientation; // Mirrored when the subject is doing the flipped pose, as seen on screen
+  corrections: PoseCorrection[]; // Most significant first
+  cropWarnings: CropWarning[]; // Joints, hands, feet or head cut awkwardly by the output crop
+  group?: GroupGuidance; // Present in group mode; framing fields then describe the whole group
+  personMatches?: PersonPoseMatch[]; // Per-person scores for multi-person templates
 }
 
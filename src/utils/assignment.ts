@@ -0,0 +1,79 @@
+/**
+ * Minimum-cost assignment of rows to columns (Hungarian algorithm, O(n³)).
+ * Returns the column assigned to each row, or -1 for rows left over when
+ * there are more rows than columns.
+ */
+export function solveAssignment(cost: number[][]): number[] {
+  const rows = cost.length;
+  const cols = rows > 0 ? cost[0].length : 0;
+  if (rows === 0 || cols === 0) return new Array<number>(rows).fill(-1);
+
+  // The algorithm below needs rows <= columns, so solve the transpose instead
+  if (rows > cols) {
+    const transposed = Array.from({ length: cols }, (_, col) => cost.map((row) => row[col]));
+    const result = new Array<number>(rows).fill(-1);
+    solveAssignment(transposed).forEach((row, col) => {
+      result[row] = col;
+    });
+    return result;
+  }
+
+  // Row and column potentials, 1-based with index 0 as a virtual start column
+  const u = new Array<number>(rows + 1).fill(0);
+  const v = new Array<number>(cols + 1).fill(0);
+  const rowForCol = new Array<number>(cols + 1).fill(0);
+  const previousCol = new Array<number>(cols + 1).fill(0);
+
+  for (let row = 1; row <= rows; row++) {
+    rowForCol[0] = row;
+    let col = 0;
+    const minSlack = new Array<number>(cols + 1).fill(Infinity);
+    const visited = new Array<boolean>(cols + 1).fill(false);
+
+    // Grow an alternating path until it reaches a free column
+    do {
+      visited[col] = true;
+      const currentRow = rowForCol[col];
+      let delta = Infinity;
+      let nextCol = 0;
+
+      for (let j = 1; j <= cols; j++) {
+        if (visited[j]) continue;
+        const slack = cost[currentRow - 1][j - 1] - u[currentRow] - v[j];
+        if (slack < minSlack[j]) {
+          minSlack[j] = slack;
+          previousCol[j] = col;
+        }
+        if (minSlack[j] < delta) {
+          delta = minSlack[j];
+          nextCol = j;
+        }
+      }
+
+      for (let j = 0; j <= cols; j++) {
+        if (visited[j]) {
+          u[rowForCol[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minSlack[j] -= delta;
+        }
+      }
+      col = nextCol;
+    } while (rowForCol[col] !== 0);
+
+    // Flip the path so every row along it moves to its new column
+    do {
+      const prev = previousCol[col];
+      rowForCol[col] = rowForCol[prev];
+      col = prev;
+    } while (col !== 0);
+  }
+
+  const result = new Array<number>(rows).fill(-1);
+  for (let col = 1; col <= cols; col++) {
+    if (rowForCol[col] > 0) {
+      result[rowForCol[col] - 1] = col - 1;
+    }
+  }
+  return result;
+}
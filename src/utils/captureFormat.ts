@@ -0,0 +1,71 @@
+export type AspectRatioId = '4:5' | '9:16' | '2:3' | '1:1';
+export type OutputMimeType = 'image/jpeg' | 'image/png' | 'image/webp';
+
+export type CaptureFormat = {
+  aspectRatio: AspectRatioId;
+  mimeType: OutputMimeType;
+  quality: number; // 0-1, ignored for PNG
+  maxDimension: number | null; // Longest output edge in pixels, null = full crop resolution
+}
+
+export const ASPECT_RATIOS: { id: AspectRatioId; label: string; ratio: number }[] = [
+  { id: '4:5', label: 'Portrait 4:5', ratio: 4 / 5 },
+  { id: '9:16', label: 'Story 9:16', ratio: 9 / 16 },
+  { id: '2:3', label: 'Print 2:3', ratio: 2 / 3 },
+  { id: '1:1', label: 'Square 1:1', ratio: 1 },
+];
+
+export const OUTPUT_TYPES: { mimeType: OutputMimeType; label: string; extension: string }[] = [
+  { mimeType: 'image/jpeg', label: 'JPEG', extension: 'jpg' },
+  { mimeType: 'image/png', label: 'PNG', extension: 'png' },
+  { mimeType: 'image/webp', label: 'WebP', extension: 'webp' },
+];
+
+export const OUTPUT_RESOLUTIONS: { maxDimension: number | null; label: string }[] = [
+  { maxDimension: null, label: 'Full' },
+  { maxDimension: 2048, label: '2048px' },
+  { maxDimension: 1080, label: '1080px' },
+];
+
+export const DEFAULT_CAPTURE_FORMAT: CaptureFormat = {
+  aspectRatio: '4:5',
+  mimeType: 'image/jpeg',
+  quality: 0.95,
+  maxDimension: null,
+};
+
+const FORMAT_STORAGE_KEY = 'rightangle-capture-format';
+
+export function loadCaptureFormat(): CaptureFormat {
+  try {
+    const stored = localStorage.getItem(FORMAT_STORAGE_KEY);
+    if (stored) {
+      return { ...DEFAULT_CAPTURE_FORMAT, ...(JSON.parse(stored) as Partial<CaptureFormat>) };
+    }
+  } catch (err) {
+    console.warn('Failed to read capture format:', err);
+  }
+  return DEFAULT_CAPTURE_FORMAT;
+}
+
+export function saveCaptureFormat(format: CaptureFormat) {
+  try {
+    localStorage.setItem(FORMAT_STORAGE_KEY, JSON.stringify(format));
+  } catch (err) {
+    console.warn('Failed to save capture format:', err);
+  }
+}
+
+/**
+ * Get the width/height ratio for an aspect ratio id
+ */
+export function getAspectRatio(id: AspectRatioId): number {
+  return ASPECT_RATIOS.find((a) => a.id === id)?.ratio ?? 4 / 5;
+}
+
+/**
+ * Get the file extension for an output type
+ */
+export function getFileExtension(mimeType: string): string {
+  return OUTPUT_TYPES.find((t) => t.mimeType === mimeType)?.extension ?? 'jpg';
+}
@@ -0,0 +1,213 @@
+import { type Landmark } from '../types/pose';
+
+// Coordinate spaces a camera frame passes through on its way to the photo:
+// - video:   0-1 across the camera frame, where MediaPipe landmarks live
+// - crop:    0-1 across the output crop, i.e. what ends up in the photo
+// - preview: CSS pixels of the viewport, which shows the video with
+//            object-fit: cover, flipped for the front camera
+// - canvas:  pixels of an overlay canvas stretched over the preview
+
+export type Point = { x: number; y: number };
+export type Rect = { x: number; y: number; width: number; height: number };
+
+export const FULL_FRAME: Rect = { x: 0, y: 0, width: 1, height: 1 };
+
+/**
+ * Largest centered rectangle of the target aspect that fits in the source
+ */
+export function computeCropRect(sourceWidth: number, sourceHeight: number, targetAspect: number): Rect {
+  const sourceAspect = sourceWidth / sourceHeight;
+
+  if (sourceAspect > targetAspect) {
+    // Source is wider than target, crop width
+    const width = sourceHeight * targetAspect;
+    return { x: (sourceWidth - width) / 2, y: 0, width, height: sourceHeight };
+  }
+
+  // Source is taller than target, crop height
+  const height = sourceWidth / targetAspect;
+  return { x: 0, y: (sourceHeight - height) / 2, width: sourceWidth, height };
+}
+
+/**
+ * The capture crop as fractions (0-1) of the source - the space pose landmarks are in
+ */
+export function computeNormalizedCropRect(sourceWidth: number, sourceHeight: number, targetAspect: number): Rect {
+  if (!sourceWidth || !sourceHeight) return FULL_FRAME;
+
+  const crop = computeCropRect(sourceWidth, sourceHeight, targetAspect);
+  return {
+    x: crop.x / sourceWidth,
+    y: crop.y / sourceHeight,
+    width: crop.width / sourceWidth,
+    height: crop.height / sourceHeight,
+  };
+}
+
+/**
+ * Fit a rectangle of the given aspect inside a container, centered (like object-fit: contain)
+ */
+export function fitRectContain(aspect: number, container: Rect): Rect {
+  const containerAspect = container.width / container.height;
+
+  if (aspect > containerAspect) {
+    // Content is wider - fit to width, center vertically
+    const height = container.width / aspect;
+    return {
+      x: container.x,
+      y: container.y + (container.height - height) / 2,
+      width: container.width,
+      height,
+    };
+  }
+
+  // Content is taller - fit to height, center horizontally
+  const width = container.height * aspect;
+  return {
+    x: container.x + (container.width - width) / 2,
+    y: container.y,
+    width,
+    height: container.height,
+  };
+}
+
+/**
+ * Video point to crop position (0-1 inside the crop, beyond it when outside)
+ */
+export function videoToCrop(point: Point, crop: Rect): Point {
+  return {
+    x: (point.x - crop.x) / crop.width,
+    y: (point.y - crop.y) / crop.height,
+  };
+}
+
+/**
+ * Crop position back to a video point
+ */
+export function cropToVideo(point: Point, crop: Rect): Point {
+  return {
+    x: crop.x + point.x * crop.width,
+    y: crop.y + point.y * crop.height,
+  };
+}
+
+/**
+ * Landmarks re-expressed in crop coordinates, keeping depth and visibility
+ */
+export function landmarksToCrop(landmarks: Landmark[], crop: Rect): Landmark[] {
+  return landmarks.map((lm) => ({ ...lm, ...videoToCrop(lm, crop) }));
+}
+
+// Everything needed to move points between video, crop and preview space
+export type FrameMapping = {
+  crop: Rect; // Output crop, 0-1 in video coordinates
+  cropAspect: number; // Output crop width/height in pixels
+  videoRect: Rect; // Where the whole video is drawn in the preview; overflows it under object-fit: cover
+  previewWidth: number;
+  previewHeight: number;
+  mirrored: boolean;
+}
+
+/**
+ * Build the mapping for a video shown with object-fit: cover in a preview of the given size.
+ * Until the video reports its dimensions it's assumed to exactly fill the preview.
+ */
+export function createFrameMapping(
+  videoWidth: number,
+  videoHeight: number,
+  previewWidth: number,
+  previewHeight: number,
+  cropAspect: number,
+  mirrored = false
+): FrameMapping {
+  const sourceWidth = videoWidth || previewWidth;
+  const sourceHeight = videoHeight || previewHeight;
+  const scale = Math.max(previewWidth / sourceWidth, previewHeight / sourceHeight);
+  const width = sourceWidth * scale;
+  const height = sourceHeight * scale;
+
+  return {
+    crop: computeNormalizedCropRect(sourceWidth, sourceHeight, cropAspect),
+    cropAspect,
+    videoRect: { x: (previewWidth - width) / 2, y: (previewHeight - height) / 2, width, height },
+    previewWidth,
+    previewHeight,
+    mirrored,
+  };
+}
+
+/**
+ * Video point to preview pixels
+ */
+export function videoToPreview(point: Point, mapping: FrameMapping): Point {
+  const x = mapping.mirrored ? 1 - point.x : point.x;
+  return {
+    x: mapping.videoRect.x + x * mapping.videoRect.width,
+    y: mapping.videoRect.y + point.y * mapping.videoRect.height,
+  };
+}
+
+/**
+ * Preview pixels back to a video point
+ */
+export function previewToVideo(point: Point, mapping: FrameMapping): Point {
+  const x = (point.x - mapping.videoRect.x) / mapping.videoRect.width;
+  return {
+    x: mapping.mirrored ? 1 - x : x,
+    y: (point.y - mapping.videoRect.y) / mapping.videoRect.height,
+  };
+}
+
+/**
+ * Crop position to preview pixels
+ */
+export function cropToPreview(point: Point, mapping: FrameMapping): Point {
+  return videoToPreview(cropToVideo(point, mapping.crop), mapping);
+}
+
+/**
+ * Preview pixels to pixels of a canvas stretched over the preview
+ */
+export function previewToCanvas(point: Point, mapping: FrameMapping, canvasWidth: number, canvasHeight: number): Point {
+  return {
+    x: point.x * (canvasWidth / mapping.previewWidth),
+    y: point.y * (canvasHeight / mapping.previewHeight),
+  };
+}
+
+/**
+ * Where the capture crop appears in the preview, clipped to it
+ */
+export function getPreviewCropRect(mapping: FrameMapping): Rect {
+  const topLeft = cropToPreview({ x: 0, y: 0 }, mapping);
+  const bottomRight = cropToPreview({ x: 1, y: 1 }, mapping);
+
+  // Mirroring swaps which corner is on the left
+  const left = Math.max(0, Math.min(topLeft.x, bottomRight.x));
+  const right = Math.min(mapping.previewWidth, Math.max(topLeft.x, bottomRight.x));
+  const top = Math.max(0, topLeft.y);
+  const bottom = Math.min(mapping.previewHeight, bottomRight.y);
+
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * The capture crop in pixels of a still taken from the same camera. A still
+ * with the video's aspect gets exactly the previewed region; one with a
+ * different aspect (e.g. a 4:3 sensor photo behind a 16:9 stream) gets the
+ * largest crop of the output aspect around the same center.
+ */
+export function getSourceCropRect(mapping: FrameMapping, sourceWidth: number, sourceHeight: number): Rect {
+  const centerX = (mapping.crop.x + mapping.crop.width / 2) * sourceWidth;
+  const centerY = (mapping.crop.y + mapping.crop.height / 2) * sourceHeight;
+  const fitted = computeCropRect(sourceWidth, sourceHeight, mapping.cropAspect);
+  const width = Math.min(fitted.width, mapping.crop.width * sourceWidth);
+  const height = width / mapping.cropAspect;
+
+  return {
+    x: Math.max(0, Math.min(sourceWidth - width, centerX - width / 2)),
+    y: Math.max(0, Math.min(sourceHeight - height, centerY - height / 2)),
+    width,
+    height,
+  };
+}
@@ -0,0 +1,137 @@
+export type ThrottleReason = 'hidden' | 'battery-saver';
+
+export type FrameRateStats = {
+  targetFps: number; // Rate the scheduler is currently aiming for
+  measuredFps: number; // Detections actually completed per second
+  inferenceMs: number | null; // Running average of detectForVideo time in the worker
+  roundTripMs: number | null; // Running average from frame grab to result
+  droppedFrames: number; // Frames skipped because detection couldn't keep up
+  throttleReason: ThrottleReason | null;
+}
+
+export type FrameRateBounds = {
+  minFps: number;
+  maxFps: number;
+  initialFps: number;
+}
+
+export const DEFAULT_FRAME_RATE_BOUNDS: FrameRateBounds = {
+  minFps: 4,
+  maxFps: 24,
+  initialFps: 10,
+};
+
+// Cap while the device looks like it's saving power
+const BATTERY_SAVER_MAX_FPS = 6;
+// Share of wall time detection may take, leaving headroom for rendering
+const LOAD_TARGET = 0.6;
+// Back off when more than this share of wanted frames were dropped
+const DROP_RATIO_LIMIT = 0.25;
+const DROP_BACKOFF = 0.8;
+// Rate changes are decided over windows of this length
+const ADJUST_WINDOW_MS = 1000;
+// Weight of the newest sample in the running latency averages
+const LATENCY_SMOOTHING = 0.2;
+
+export type FrameRateController = {
+  getFrameInterval: () => number;
+  recordResult: (inferenceMs: number, roundTripMs: number, now: number) => boolean;
+  recordDrop: () => void;
+  setThrottle: (reason: ThrottleReason, active: boolean) => void;
+  getStats: () => FrameRateStats;
+}
+
+function average(previous: number | null, sample: number): number {
+  return previous === null ? sample : previous + LATENCY_SMOOTHING * (sample - previous);
+}
+
+/**
+ * Adaptive detection rate: ramps up while inference leaves headroom, drops
+ * quickly when frames pile up, and caps itself when hidden or saving battery.
+ */
+export function createFrameRateController(bounds: FrameRateBounds = DEFAULT_FRAME_RATE_BOUNDS): FrameRateController {
+  let targetFps = bounds.initialFps;
+  let measuredFps = 0;
+  let inferenceMs: number | null = null;
+  let roundTripMs: number | null = null;
+  let droppedFrames = 0;
+  const throttles = new Set<ThrottleReason>();
+
+  let windowStart: number | null = null;
+  let windowResults = 0;
+  let windowDrops = 0;
+
+  const getMaxFps = () =>
+    throttles.has('battery-saver') ? Math.min(bounds.maxFps, BATTERY_SAVER_MAX_FPS) : bounds.maxFps;
+
+  const clampFps = (fps: number) => Math.max(bounds.minFps, Math.min(getMaxFps(), fps));
+
+  const adjust = (elapsed: number) => {
+    measuredFps = (windowResults * 1000) / elapsed;
+    const dropRatio = windowDrops / Math.max(1, windowResults + windowDrops);
+
+    if (dropRatio > DROP_RATIO_LIMIT) {
+      targetFps = targetFps * DROP_BACKOFF;
+    } else if (inferenceMs) {
+      const sustainableFps = (1000 * LOAD_TARGET) / inferenceMs;
+      // Ramp up one step at a time, but fall straight to what's sustainable
+      targetFps = sustainableFps > targetFps ? targetFps + 1 : sustainableFps;
+    }
+    targetFps = clampFps(targetFps);
+  };
+
+  const recordResult = (latestInferenceMs: number, latestRoundTripMs: number, now: number): boolean => {
+    inferenceMs = average(inferenceMs, latestInferenceMs);
+    roundTripMs = average(roundTripMs, latestRoundTripMs);
+    windowResults++;
+
+    if (windowStart === null) {
+      windowStart = now;
+      return false;
+    }
+
+    const elapsed = now - windowStart;
+    if (elapsed < ADJUST_WINDOW_MS) return false;
+
+    adjust(elapsed);
+    windowStart = now;
+    windowResults = 0;
+    windowDrops = 0;
+    return true;
+  };
+
+  const recordDrop = () => {
+    droppedFrames++;
+    windowDrops++;
+  };
+
+  const setThrottle = (reason: ThrottleReason, active: boolean) => {
+    if (active) {
+      throttles.add(reason);
+    } else {
+      throttles.delete(reason);
+    }
+    targetFps = clampFps(targetFps);
+    // A paused or capped period says nothing about the next window
+    windowStart = null;
+    windowResults = 0;
+    windowDrops = 0;
+  };
+
+  const getStats = (): FrameRateStats => ({
+    targetFps,
+    measuredFps,
+    inferenceMs,
+    roundTripMs,
+    droppedFrames,
+    throttleReason: throttles.has('hidden') ? 'hidden' : throttles.has('battery-saver') ? 'battery-saver' : null,
+  });
+
+  return {
+    getFrameInterval: () => 1000 / targetFps,
+    recordResult,
+    recordDrop,
+    setThrottle,
+    getStats,
+  };
+}
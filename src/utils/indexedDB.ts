@@ -1,19 +1,71 @@
+import { type Landmark, type PoseGuidance } from '../types/pose';
+import { type PoseTemplate, getTemplateFramingTarget } from '../data/poseTemplates';
+import { type CaptureFormat } from './captureFormat';
+import { type StillCaptureMethod } from './stillCapture';
+
 const DB_NAME = 'rightangle-photo';
-const DB_VERSION = 1;
+const DB_VERSION = 3;
 const STORE_NAME = 'photos';
+const TEMPLATE_STORE_NAME = 'templates';
+
+export type CaptureRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Everything known about the pose and framing at the moment of capture
+export type PhotoMeta = {
+  poseTemplate?: string;
+  poseMatch?: number;
+  landmarks?: Landmark[]; // Raw (unsmoothed) landmarks, normalized (0-1) to the video frame
+  guidance?: PoseGuidance;
+  crop?: CaptureRect; // Crop applied to the still, in still pixels (video pixels on older photos)
+  videoResolution?: { width: number; height: number };
+  stillResolution?: { width: number; height: number }; // Full-resolution source the crop was taken from
+  stillMethod?: StillCaptureMethod;
+}
 
 export type PhotoRecord = {
   id: string;
-  url: string;
+  blob: Blob;
+  url: string; // Object URL for display - regenerated on load, never persisted
   timestamp: number;
-  meta?: {
-    poseTemplate?: string;
-    poseMatch?: number;
-  };
+  format?: CaptureFormat; // Output settings used; missing on photos taken before formats existed
+  meta?: PhotoMeta;
 }
 
+// Shape of a record as it lives in the object store
+type StoredPhotoRecord = Omit<PhotoRecord, 'url'>;
+
+// User-created templates keep their source image; imagePath is an object URL made on load
+type StoredTemplateRecord = Omit<PoseTemplate, 'imagePath' | 'imageBlob'> & {
+  imageBlob: Blob;
+};
+
 let db: IDBDatabase | null = null;
 
+/**
+ * Version 1 stored only a `blob:` URL string, which is dead after a reload.
+ * Those records can't be recovered, so drop anything without image data.
+ */
+function migrateToV2(transaction: IDBTransaction) {
+  const store = transaction.objectStore(STORE_NAME);
+  const request = store.openCursor();
+
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+
+    const record = cursor.value as Partial<StoredPhotoRecord>;
+    if (!(record.blob instanceof Blob)) {
+      cursor.delete();
+    }
+    cursor.continue();
+  };
+}
+
 export async function initDB(): Promise<IDBDatabase> {
   if (db) return db;
 
@@ -30,6 +82,11 @@ export async function initDB(): Promise<IDBDatabase> {
       const database = (event.target as IDBOpenDBRequest).result;
       if (!database.objectStoreNames.contains(STORE_NAME)) {
         database.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      } else if (event.oldVersion < 2 && request.transaction) {
+        migrateToV2(request.transaction);
+      }
+      if (!database.objectStoreNames.contains(TEMPLATE_STORE_NAME)) {
+        database.createObjectStore(TEMPLATE_STORE_NAME, { keyPath: 'id' });
       }
     };
   });
@@ -37,19 +94,32 @@ export async function initDB(): Promise<IDBDatabase> {
 
 export async function savePhoto(photo: PhotoRecord): Promise<void> {
   const database = await initDB();
+  // Object URLs are only valid for this page session, so never store them
+  const stored: StoredPhotoRecord = {
+    id: photo.id,
+    blob: photo.blob,
+    timestamp: photo.timestamp,
+    format: photo.format,
+    meta: photo.meta,
+  };
+
   return new Promise((resolve, reject) => {
     const transaction = database.transaction([STORE_NAME], 'readwrite');
     const store = transaction.objectStore(STORE_NAME);
-    const request = store.put(photo);
+    const request = store.put(stored);
 
     request.onerror = () => reject(request.error);
     request.onsuccess = () => resolve();
   });
 }
 
+/**
+ * Load all photos, newest first, with a fresh object URL for each blob.
+ * Callers own the returned URLs and should release them with revokePhotoURL.
+ */
 export async function getAllPhotos(): Promise<PhotoRecord[]> {
   const database = await initDB();
-  return new Promise((resolve, reject) => {
+  const records = await new Promise<StoredPhotoRecord[]>((resolve, reject) => {
     const transaction = database.transaction([STORE_NAME], 'readonly');
     const store = transaction.objectStore(STORE_NAME);
     const request = store.getAll();
@@ -57,6 +127,14 @@ export async function getAllPhotos(): Promise<PhotoRecord[]> {
     request.onerror = () => reject(request.error);
     request.onsuccess = () => resolve(request.result || []);
   });
+
+  return records
+    .filter((record) => record.blob instanceof Blob)
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .map((record) => ({
+      ...record,
+      url: URL.createObjectURL(record.blob),
+    }));
 }
 
 export async function deletePhoto(id: string): Promise<void> {
@@ -71,3 +149,95 @@ export async function deletePhoto(id: string): Promise<void> {
   });
 }
 
+/**
+ * Release the object URL created for a photo
+ */
+export function revokePhotoURL(photo: PhotoRecord): void {
+  URL.revokeObjectURL(photo.url);
+}
+
+/**
+ * Save a user-created pose template. The template must carry its image blob.
+ */
+export async function saveTemplate(template: PoseTemplate): Promise<void> {
+  if (!template.imageBlob) {
+    throw new Error('Custom templates must include their source image');
+  }
+
+  const database = await initDB();
+  // Store everything but the object URL, so fields added to templates later persist too
+  const { imagePath, ...rest } = template;
+  const stored: StoredTemplateRecord = { ...rest, isCustom: true, imageBlob: template.imageBlob };
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction([TEMPLATE_STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(TEMPLATE_STORE_NAME);
+    const request = store.put(stored);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve();
+  });
+}
+
+/**
+ * Width/height of an image blob, or undefined if it can't be decoded
+ */
+async function getImageAspect(blob: Blob): Promise<number | undefined> {
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const aspect = bitmap.width / bitmap.height;
+    bitmap.close();
+    return aspect;
+  } catch (err) {
+    console.warn('Failed to read template image size:', err);
+    return undefined;
+  }
+}
+
+/**
+ * Load user-created templates with a fresh object URL as imagePath.
+ * Callers own the returned URLs and should release them with revokeTemplateURL.
+ */
+export async function getAllTemplates(): Promise<PoseTemplate[]> {
+  const database = await initDB();
+  const records = await new Promise<StoredTemplateRecord[]>((resolve, reject) => {
+    const transaction = database.transaction([TEMPLATE_STORE_NAME], 'readonly');
+    const store = transaction.objectStore(TEMPLATE_STORE_NAME);
+    const request = store.getAll();
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result || []);
+  });
+
+  return Promise.all(records.map(async (record) => ({
+    ...record,
+    // Templates saved before image aspects were recorded
+    imageAspect: record.imageAspect ?? await getImageAspect(record.imageBlob),
+    // Templates saved before framing targets (or their vertical position) were recorded
+    framingTarget: record.framingTarget?.centerY !== undefined ? record.framingTarget : (record.landmarks
+      ? getTemplateFramingTarget(record.people ?? [{ landmarks: record.landmarks, normalizedPose: record.normalizedPose }])
+      : undefined),
+    imagePath: URL.createObjectURL(record.imageBlob),
+  })));
+}
+
+export async function deleteTemplate(id: string): Promise<void> {
+  const database = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction([TEMPLATE_STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(TEMPLATE_STORE_NAME);
+    const request = store.delete(id);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve();
+  });
+}
+
+/**
+ * Release the object URL created for a custom template image
+ */
+export function revokeTemplateURL(template: PoseTemplate): void {
+  if (template.isCustom) {
+    URL.revokeObjectURL(template.imagePath);
+  }
+}
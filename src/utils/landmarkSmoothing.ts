@@ -0,0 +1,132 @@
+import { type Landmark } from '../types/pose';
+
+export type SmoothingSettings = {
+  minCutoff: number; // Hz - lower is steadier when the subject holds still
+  beta: number; // How quickly the cutoff rises with speed - higher means less lag on movement
+  derivativeCutoff: number; // Hz - cutoff for the speed estimate itself
+  visibilityThreshold: number; // Landmarks below this hold their last smoothed position
+  holdMs: number; // How long an occluded landmark is held before following raw data again
+}
+
+export const DEFAULT_SMOOTHING_SETTINGS: SmoothingSettings = {
+  minCutoff: 1.5,
+  beta: 5,
+  derivativeCutoff: 1,
+  visibilityThreshold: 0.5,
+  holdMs: 500,
+};
+
+// Frame gaps longer than this (tab hidden, camera switch) restart the filter
+const MAX_FRAME_GAP_MS = 1000;
+
+type AxisState = {
+  value: number;
+  derivative: number;
+}
+
+type LandmarkState = {
+  x: AxisState;
+  y: AxisState;
+  z: AxisState;
+  lastVisibleAt: number;
+  visibility: number; // Last confident visibility, reported while the landmark is held
+}
+
+export type LandmarkSmoother = {
+  smooth: (landmarks: Landmark[], timestamp: number) => Landmark[];
+  reset: () => void;
+}
+
+/**
+ * Exponential smoothing factor for a cutoff frequency at a given frame interval
+ */
+function smoothingFactor(cutoff: number, dtSeconds: number): number {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dtSeconds);
+}
+
+function createAxisState(value: number): AxisState {
+  return { value, derivative: 0 };
+}
+
+function createLandmarkState(landmark: Landmark, timestamp: number): LandmarkState {
+  return {
+    x: createAxisState(landmark.x),
+    y: createAxisState(landmark.y),
+    z: createAxisState(landmark.z ?? 0),
+    lastVisibleAt: timestamp,
+    visibility: landmark.visibility ?? 1,
+  };
+}
+
+/**
+ * One-Euro filter step: heavy smoothing when still, little lag when moving fast
+ */
+function filterAxis(state: AxisState, raw: number, dtSeconds: number, settings: SmoothingSettings): AxisState {
+  const derivativeAlpha = smoothingFactor(settings.derivativeCutoff, dtSeconds);
+  const rawDerivative = (raw - state.value) / dtSeconds;
+  const derivative = state.derivative + derivativeAlpha * (rawDerivative - state.derivative);
+
+  const cutoff = settings.minCutoff + settings.beta * Math.abs(derivative);
+  const alpha = smoothingFactor(cutoff, dtSeconds);
+  return {
+    value: state.value + alpha * (raw - state.value),
+    derivative,
+  };
+}
+
+/**
+ * Create a per-landmark One-Euro filter that also holds briefly occluded
+ * landmarks in place instead of letting them jump to low-confidence guesses.
+ */
+export function createLandmarkSmoother(settings: SmoothingSettings = DEFAULT_SMOOTHING_SETTINGS): LandmarkSmoother {
+  let states: (LandmarkState | null)[] = [];
+  let lastTimestamp: number | null = null;
+
+  const reset = () => {
+    states = [];
+    lastTimestamp = null;
+  };
+
+  const smooth = (landmarks: Landmark[], timestamp: number): Landmark[] => {
+    const elapsed = lastTimestamp === null ? 0 : timestamp - lastTimestamp;
+    if (elapsed <= 0 || elapsed > MAX_FRAME_GAP_MS) {
+      states = [];
+    }
+    lastTimestamp = timestamp;
+    const dtSeconds = elapsed / 1000;
+
+    return landmarks.map((landmark, index) => {
+      const state = states[index];
+      const isVisible = (landmark.visibility ?? 1) >= settings.visibilityThreshold;
+
+      if (!isVisible) {
+        if (state && timestamp - state.lastVisibleAt <= settings.holdMs) {
+          // Keep the last trusted position and confidence while the joint is briefly occluded,
+          // so guidance that skips low-visibility landmarks keeps using it
+          return { ...landmark, x: state.x.value, y: state.y.value, z: state.z.value, visibility: state.visibility };
+        }
+        // Held too long - follow the raw guess and start fresh once it's visible again
+        states[index] = null;
+        return landmark;
+      }
+
+      if (!state) {
+        states[index] = createLandmarkState(landmark, timestamp);
+        return landmark;
+      }
+
+      const next: LandmarkState = {
+        x: filterAxis(state.x, landmark.x, dtSeconds, settings),
+        y: filterAxis(state.y, landmark.y, dtSeconds, settings),
+        z: filterAxis(state.z, landmark.z ?? 0, dtSeconds, settings),
+        lastVisibleAt: timestamp,
+        visibility: landmark.visibility ?? 1,
+      };
+      states[index] = next;
+      return { ...landmark, x: next.x.value, y: next.y.value, z: next.z.value };
+    });
+  };
+
+  return { smooth, reset };
+}
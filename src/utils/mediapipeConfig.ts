@@ -0,0 +1,142 @@
+import { FilesetResolver, PoseLandmarker, type PoseLandmarkerOptions } from '@mediapipe/tasks-vision';
+
+export type PoseDelegate = 'CPU' | 'GPU';
+export type PoseModelVariant = 'lite' | 'full' | 'heavy';
+
+export type LandmarkerConfig = {
+  model: PoseModelVariant;
+  delegate: PoseDelegate;
+}
+
+export type DetectionSettings = {
+  video: LandmarkerConfig; // Live tracking - runs every frame, so favor speed
+  image: LandmarkerConfig; // Template analysis - runs once per image, so favor accuracy
+}
+
+export const POSE_MODEL_VARIANTS: { id: PoseModelVariant; label: string }[] = [
+  { id: 'lite', label: 'Lite' },
+  { id: 'full', label: 'Full' },
+  { id: 'heavy', label: 'Heavy' },
+];
+
+export const POSE_DELEGATES: { id: PoseDelegate; label: string }[] = [
+  { id: 'GPU', label: 'GPU' },
+  { id: 'CPU', label: 'CPU' },
+];
+
+// Most people tracked at once in group mode - each one adds inference time
+export const MAX_GROUP_SIZE = 6;
+
+export const DEFAULT_DETECTION_SETTINGS: DetectionSettings = {
+  video: { model: 'lite', delegate: 'GPU' },
+  image: { model: 'full', delegate: 'GPU' }, // Heavy is more accurate, but isn't available offline until first used
+};
+
+// Pinned WASM and model files are copied into public/mediapipe by
+// scripts/fetch-mediapipe-assets.mjs and served with the app.
+// Set VITE_MEDIAPIPE_ASSET_BASE_URL to load them from somewhere else.
+const configuredBaseUrl = (import.meta.env.VITE_MEDIAPIPE_ASSET_BASE_URL as string | undefined)
+  ?? `${import.meta.env.BASE_URL}mediapipe/`;
+
+// Resolve to an absolute URL so the main thread and workers agree
+const ASSET_BASE_URL = new URL(
+  configuredBaseUrl.endsWith('/') ? configuredBaseUrl : `${configuredBaseUrl}/`,
+  self.location.href
+).href;
+
+export const MEDIAPIPE_WASM_URL = new URL('wasm', ASSET_BASE_URL).href;
+
+const DETECTION_STORAGE_KEY = 'rightangle-detection-settings';
+
+export function loadDetectionSettings(): DetectionSettings {
+  try {
+    const stored = localStorage.getItem(DETECTION_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<DetectionSettings>;
+      return {
+        video: { ...DEFAULT_DETECTION_SETTINGS.video, ...parsed.video },
+        image: { ...DEFAULT_DETECTION_SETTINGS.image, ...parsed.image },
+      };
+    }
+  } catch (err) {
+    console.warn('Failed to read detection settings:', err);
+  }
+  return DEFAULT_DETECTION_SETTINGS;
+}
+
+export function saveDetectionSettings(settings: DetectionSettings) {
+  try {
+    localStorage.setItem(DETECTION_STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn('Failed to save detection settings:', err);
+  }
+}
+
+/**
+ * URL of the self-hosted model file for a variant
+ */
+export function getPoseModelUrl(model: PoseModelVariant): string {
+  return new URL(`models/pose_landmarker_${model}.task`, ASSET_BASE_URL).href;
+}
+
+/**
+ * Load the MediaPipe vision WASM fileset from the configured asset location
+ */
+export function loadVisionFileset() {
+  return FilesetResolver.forVisionTasks(MEDIAPIPE_WASM_URL);
+}
+
+/**
+ * Pose landmarker options shared by live video and still image detection
+ */
+export function getPoseLandmarkerOptions(
+  runningMode: 'IMAGE' | 'VIDEO',
+  config: LandmarkerConfig
+): PoseLandmarkerOptions {
+  return {
+    baseOptions: {
+      modelAssetPath: getPoseModelUrl(config.model),
+      delegate: config.delegate,
+    },
+    runningMode,
+    numPoses: 1,
+    minPoseDetectionConfidence: 0.5,
+    minPosePresenceConfidence: 0.5,
+    minTrackingConfidence: 0.5,
+  };
+}
+
+/**
+ * Create a pose landmarker, falling back to the CPU if the GPU delegate fails
+ * (e.g. no WebGL2 on older phones). Module workers can't importScripts() the
+ * WASM loader, so they pass in the loader's factory they imported themselves.
+ */
+export async function createPoseLandmarker(
+  runningMode: 'IMAGE' | 'VIDEO',
+  config: LandmarkerConfig,
+  canvas?: OffscreenCanvas,
+  wasmModuleFactory?: unknown
+): Promise<PoseLandmarker> {
+  const fileset = await loadVisionFileset();
+  // An empty loader path makes MediaPipe use self.ModuleFactory as-is
+  const vision = wasmModuleFactory ? { ...fileset, wasmLoaderPath: '' } : fileset;
+
+  const create = (delegate: PoseDelegate) => {
+    // MediaPipe clears the factory after each landmarker it creates
+    if (wasmModuleFactory) {
+      (self as unknown as { ModuleFactory: unknown }).ModuleFactory = wasmModuleFactory;
+    }
+    return PoseLandmarker.createFromOptions(vision, {
+      ...getPoseLandmarkerOptions(runningMode, { ...config, delegate }),
+      canvas,
+    });
+  };
+
+  try {
+    return await create(config.delegate);
+  } catch (err) {
+    if (config.delegate !== 'GPU') throw err;
+    console.warn('GPU delegate failed, falling back to CPU:', err);
+    return create('CPU');
+  }
+}
@@ -1,5 +1,33 @@
-import { type Landmark, type NormalizedPose, POSE_LANDMARKS } from '../types/pose';
-import { PoseLandmarker, FilesetResolver } from '@mediapipe/tasks-vision';
+import {
+  type Landmark,
+  type NormalizedPose,
+  type PoseGuidance,
+  type LimbName,
+  type LandmarkMatch,
+  type LimbMatch,
+  type PoseMatchResult,
+  type PoseCorrection,
+  type JointAngleName,
+  type BoundingBox,
+  type FrameEdge,
+  type TemplatePerson,
+  type CropWarning,
+  type FramingRange,
+  type FramingTarget,
+  type VerticalFramingTargets,
+  type VerticalGuidance,
+  type VerticalHint,
+  POSE_LANDMARKS,
+} from '../types/pose';
+import { type PoseLandmarker } from '@mediapipe/tasks-vision';
+import {
+  type LandmarkerConfig,
+  createPoseLandmarker,
+  DEFAULT_DETECTION_SETTINGS,
+  MAX_GROUP_SIZE,
+} from './mediapipeConfig';
+import { solveAssignment } from './assignment';
+import { type Rect, FULL_FRAME, videoToCrop, landmarksToCrop, fitRectContain } from './coordinateMapping';
 
 /**
  * Detect if running on a mobile device
@@ -9,9 +37,11 @@ export function isMobileDevice(): boolean {
     (typeof window !== 'undefined' && window.innerWidth <= 768);
 }
 
-// Cached MediaPipe landmarker instance for image analysis
-let cachedImageLandmarker: PoseLandmarker | null = null;
-let isInitializingLandmarker = false;
+// Cached MediaPipe landmarker for image analysis, shared while it's still loading
+let cachedImageLandmarker: {
+  key: string; // Model and delegate the instance is built with
+  landmarker: Promise<PoseLandmarker>;
+} | null = null;
 
 /**
  * Normalize pose landmarks to center at hip midpoint and scale by body height
@@ -67,105 +97,433 @@ export function normalizePose(landmarks: Landmark[]): NormalizedPose {
 }
 
 /**
- * Compute center offset (-1 = left, 0 = center, 1 = right)
+ * Compute center offset within the output crop (-1 = left, 0 = center, 1 = right)
  */
-export function computeCenterOffset(landmarks: Landmark[], viewportWidth: number): number {
-  const leftHip = landmarks[POSE_LANDMARKS.LEFT_HIP];
-  const rightHip = landmarks[POSE_LANDMARKS.RIGHT_HIP];
-  const centerX = ((leftHip.x + rightHip.x) / 2) * viewportWidth;
-  const viewportCenter = viewportWidth / 2;
-  const offset = (centerX - viewportCenter) / (viewportWidth / 2);
+export function computeCenterOffset(landmarks: Landmark[], crop: Rect = FULL_FRAME): number {
+  const leftHip = videoToCrop(landmarks[POSE_LANDMARKS.LEFT_HIP], crop);
+  const rightHip = videoToCrop(landmarks[POSE_LANDMARKS.RIGHT_HIP], crop);
+  const offset = ((leftHip.x + rightHip.x) / 2 - 0.5) * 2;
   return Math.max(-1, Math.min(1, offset));
 }
 
+// How far past a threshold the subject must move before a hint clears,
+// so messages don't flip every frame at the boundary
+const HYSTERESIS_MARGIN = 0.03;
+
 /**
- * Compute distance hint based on bounding box height
+ * Compute distance hint from the body's length in the output crop.
+ * Pass the previous hint to apply hysteresis.
  */
-export function computeDistanceHint(landmarks: Landmark[], viewportHeight: number): 'too-close' | 'good' | 'too-far' {
-  const nose = landmarks[POSE_LANDMARKS.NOSE];
-  const leftAnkle = landmarks[POSE_LANDMARKS.LEFT_ANKLE];
-  const rightAnkle = landmarks[POSE_LANDMARKS.RIGHT_ANKLE];
+export function computeDistanceHint(
+  landmarks: Landmark[],
+  crop: Rect,
+  cropAspect: number,
+  previous?: PoseGuidance['distance']
+): PoseGuidance['distance'] {
+  const nose = videoToCrop(landmarks[POSE_LANDMARKS.NOSE], crop);
+  const leftAnkle = videoToCrop(landmarks[POSE_LANDMARKS.LEFT_ANKLE], crop);
+  const rightAnkle = videoToCrop(landmarks[POSE_LANDMARKS.RIGHT_ANKLE], crop);
   const ankleMidpoint = {
     x: (leftAnkle.x + rightAnkle.x) / 2,
     y: (leftAnkle.y + rightAnkle.y) / 2,
   };
 
+  // Nose-to-ankle length as a fraction of the crop height; crop widths are cropAspect heights
   const bodyHeight = Math.sqrt(
-    Math.pow(nose.x - ankleMidpoint.x, 2) + Math.pow(nose.y - ankleMidpoint.y, 2)
-  ) * viewportHeight;
+    Math.pow((nose.x - ankleMidpoint.x) * cropAspect, 2) + Math.pow(nose.y - ankleMidpoint.y, 2)
+  );
 
-  // Thresholds (adjust based on testing)
-  const minHeight = viewportHeight * 0.4; // Too close if body takes > 60% of height
-  const maxHeight = viewportHeight * 0.15; // Too far if body takes < 15% of height
+  // Thresholds (adjust based on testing), widened while the hint is already showing
+  const closeRatio = previous === 'too-close' ? 0.4 - HYSTERESIS_MARGIN : 0.4; // Too close if nose-to-ankle exceeds 40% of height
+  const farRatio = previous === 'too-far' ? 0.15 + HYSTERESIS_MARGIN : 0.15; // Too far if body takes < 15% of height
 
-  if (bodyHeight > minHeight) return 'too-close';
-  if (bodyHeight < maxHeight) return 'too-far';
+  if (bodyHeight > closeRatio) return 'too-close';
+  if (bodyHeight < farRatio) return 'too-far';
   return 'good';
 }
 
 /**
- * Compute tilt angle from shoulders (degrees)
+ * Compute signed shoulder tilt from level (degrees, -90 to 90).
+ * Positive when the shoulder line slopes down to the right of the image.
+ * `aspect` is the width/height of the frame, since x and y are normalized separately.
  */
-export function computeTilt(landmarks: Landmark[]): number {
+export function computeTilt(landmarks: Landmark[], aspect = 1): number {
   const leftShoulder = landmarks[POSE_LANDMARKS.LEFT_SHOULDER];
   const rightShoulder = landmarks[POSE_LANDMARKS.RIGHT_SHOULDER];
 
-  const dx = rightShoulder.x - leftShoulder.x;
+  const dx = (rightShoulder.x - leftShoulder.x) * aspect;
   const dy = rightShoulder.y - leftShoulder.y;
   const angle = Math.atan2(dy, dx) * (180 / Math.PI);
 
-  // Return absolute tilt (0 = level, 90 = vertical)
-  return Math.abs(angle);
+  // A subject facing the camera has their right shoulder on the image's left,
+  // giving ~180°, so measure against whichever way round is nearest level
+  if (angle > 90) return angle - 180;
+  if (angle < -90) return angle + 180;
+  return angle;
+}
+
+/**
+ * Map every landmark index to its left/right counterpart (e.g. LEFT_ELBOW <-> RIGHT_ELBOW,
+ * MOUTH_LEFT <-> MOUTH_RIGHT). Center landmarks like the nose map to themselves.
+ */
+function buildMirroredIndices(): number[] {
+  const indices = Object.values(POSE_LANDMARKS).map((idx) => idx as number);
+  for (const [name, idx] of Object.entries(POSE_LANDMARKS)) {
+    const counterpartName = name.startsWith('LEFT_')
+      ? `RIGHT_${name.slice('LEFT_'.length)}`
+      : name.endsWith('_LEFT')
+        ? `${name.slice(0, -'_LEFT'.length)}_RIGHT`
+        : null;
+    if (counterpartName) {
+      const counterpart = POSE_LANDMARKS[counterpartName as keyof typeof POSE_LANDMARKS];
+      indices[idx] = counterpart;
+      indices[counterpart] = idx;
+    }
+  }
+  return indices;
+}
+
+export const MIRRORED_LANDMARK_INDICES = buildMirroredIndices();
+
+/**
+ * Mirror landmarks horizontally about axisX, swapping left and right landmarks.
+ * Use axisX = 0.5 for raw (0-1) landmarks and 0 for normalized poses.
+ */
+export function mirrorLandmarks(landmarks: Landmark[], axisX: number = 0.5): Landmark[] {
+  return landmarks.map((_, idx) => {
+    const source = landmarks[MIRRORED_LANDMARK_INDICES[idx] ?? idx];
+    return source && { ...source, x: 2 * axisX - source.x };
+  });
+}
+
+/**
+ * Mirror a normalized pose (centered on the hips) left-to-right
+ */
+export function mirrorPose(pose: NormalizedPose): NormalizedPose {
+  return {
+    ...pose,
+    landmarks: mirrorLandmarks(pose.landmarks, 0),
+  };
+}
+
+// Landmarks that make up each limb, ordered from the body outwards
+export const LIMBS: Record<LimbName, number[]> = {
+  'left-arm': [POSE_LANDMARKS.LEFT_SHOULDER, POSE_LANDMARKS.LEFT_ELBOW, POSE_LANDMARKS.LEFT_WRIST],
+  'right-arm': [POSE_LANDMARKS.RIGHT_SHOULDER, POSE_LANDMARKS.RIGHT_ELBOW, POSE_LANDMARKS.RIGHT_WRIST],
+  'left-leg': [POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.LEFT_KNEE, POSE_LANDMARKS.LEFT_ANKLE],
+  'right-leg': [POSE_LANDMARKS.RIGHT_HIP, POSE_LANDMARKS.RIGHT_KNEE, POSE_LANDMARKS.RIGHT_ANKLE],
+  shoulders: [POSE_LANDMARKS.LEFT_SHOULDER, POSE_LANDMARKS.RIGHT_SHOULDER],
+  hips: [POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.RIGHT_HIP],
+};
+
+/**
+ * Compute the angle at joint b formed by a-b-c (degrees, 0-180)
+ */
+export function computeJointAngle(a: Landmark, b: Landmark, c: Landmark): number {
+  const angle = Math.atan2(c.y - b.y, c.x - b.x) - Math.atan2(a.y - b.y, a.x - b.x);
+  const degrees = Math.abs(angle * (180 / Math.PI));
+  return degrees > 180 ? 360 - degrees : degrees;
+}
+
+// Joints measured for angle matching: angle at the middle landmark
+export const JOINT_ANGLES: Record<Exclude<JointAngleName, 'torso-lean'>, [number, number, number]> = {
+  'left-elbow': [POSE_LANDMARKS.LEFT_SHOULDER, POSE_LANDMARKS.LEFT_ELBOW, POSE_LANDMARKS.LEFT_WRIST],
+  'right-elbow': [POSE_LANDMARKS.RIGHT_SHOULDER, POSE_LANDMARKS.RIGHT_ELBOW, POSE_LANDMARKS.RIGHT_WRIST],
+  'left-shoulder': [POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.LEFT_SHOULDER, POSE_LANDMARKS.LEFT_ELBOW],
+  'right-shoulder': [POSE_LANDMARKS.RIGHT_HIP, POSE_LANDMARKS.RIGHT_SHOULDER, POSE_LANDMARKS.RIGHT_ELBOW],
+  'left-hip': [POSE_LANDMARKS.LEFT_SHOULDER, POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.LEFT_KNEE],
+  'right-hip': [POSE_LANDMARKS.RIGHT_SHOULDER, POSE_LANDMARKS.RIGHT_HIP, POSE_LANDMARKS.RIGHT_KNEE],
+  'left-knee': [POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.LEFT_KNEE, POSE_LANDMARKS.LEFT_ANKLE],
+  'right-knee': [POSE_LANDMARKS.RIGHT_HIP, POSE_LANDMARKS.RIGHT_KNEE, POSE_LANDMARKS.RIGHT_ANKLE],
+};
+
+export const DEFAULT_ANGLE_WEIGHTS: Record<JointAngleName, number> = {
+  'left-elbow': 1,
+  'right-elbow': 1,
+  'left-shoulder': 1,
+  'right-shoulder': 1,
+  'left-hip': 1,
+  'right-hip': 1,
+  'left-knee': 1,
+  'right-knee': 1,
+  'torso-lean': 1,
+};
+
+// Angle difference (degrees) at which a joint scores 0
+const ANGLE_MATCH_MAX_DIFF = 60;
+
+function isLandmarkVisible(lm: Landmark | undefined): lm is Landmark {
+  // Template landmarks may not carry visibility
+  return !!lm && (lm.visibility === undefined || lm.visibility > 0.5);
+}
+
+/**
+ * Compute torso lean from vertical (degrees, positive = shoulders right of hips)
+ */
+export function computeTorsoLean(landmarks: Landmark[]): number | null {
+  const leftShoulder = landmarks[POSE_LANDMARKS.LEFT_SHOULDER];
+  const rightShoulder = landmarks[POSE_LANDMARKS.RIGHT_SHOULDER];
+  const leftHip = landmarks[POSE_LANDMARKS.LEFT_HIP];
+  const rightHip = landmarks[POSE_LANDMARKS.RIGHT_HIP];
+  if (![leftShoulder, rightShoulder, leftHip, rightHip].every(isLandmarkVisible)) return null;
+
+  const dx = (leftShoulder.x + rightShoulder.x) / 2 - (leftHip.x + rightHip.x) / 2;
+  const dy = (leftShoulder.y + rightShoulder.y) / 2 - (leftHip.y + rightHip.y) / 2;
+  // Shoulders sit above hips, so "up" is negative y
+  return Math.atan2(dx, -dy) * (180 / Math.PI);
+}
+
+/**
+ * Stretch x by the frame's width/height, so both axes share one unit and angles
+ * come out the same whatever the camera or image aspect
+ */
+function toIsotropic(landmarks: Landmark[], aspect: number): Landmark[] {
+  return aspect === 1 ? landmarks : landmarks.map((lm) => ({ ...lm, x: lm.x * aspect }));
+}
+
+/**
+ * Compute all measurable joint angles (degrees) for a pose.
+ * `aspect` is the width/height of the frame the landmarks were normalized to.
+ */
+export function computeJointAngles(rawLandmarks: Landmark[], aspect = 1): Partial<Record<JointAngleName, number>> {
+  const angles: Partial<Record<JointAngleName, number>> = {};
+  const landmarks = toIsotropic(rawLandmarks, aspect);
+
+  for (const [name, [a, b, c]] of Object.entries(JOINT_ANGLES) as [JointAngleName, [number, number, number]][]) {
+    const points = [landmarks[a], landmarks[b], landmarks[c]];
+    if (points.every(isLandmarkVisible)) {
+      angles[name] = computeJointAngle(points[0], points[1], points[2]);
+    }
+  }
+
+  const torsoLean = computeTorsoLean(landmarks);
+  if (torsoLean !== null) {
+    angles['torso-lean'] = torsoLean;
+  }
+
+  return angles;
+}
+
+/**
+ * Compute angle-based pose similarity (0-1). Independent of body
+ * proportions and camera distance, unlike computePoseMatch.
+ * Aspects are the width/height of the live frame and the template image.
+ */
+export function computeAngleMatch(
+  liveLandmarks: Landmark[],
+  templateLandmarks: Landmark[],
+  weights: Partial<Record<JointAngleName, number>> = DEFAULT_ANGLE_WEIGHTS,
+  liveAspect = 1,
+  templateAspect = liveAspect
+): number {
+  const liveAngles = computeJointAngles(liveLandmarks, liveAspect);
+  const templateAngles = computeJointAngles(templateLandmarks, templateAspect);
+
+  let weightedScore = 0;
+  let totalWeight = 0;
+
+  for (const [name, weight] of Object.entries(weights) as [JointAngleName, number][]) {
+    const live = liveAngles[name];
+    const template = templateAngles[name];
+    if (!weight || live === undefined || template === undefined) continue;
+
+    const diff = Math.abs(live - template);
+    weightedScore += weight * Math.max(0, 1 - diff / ANGLE_MATCH_MAX_DIFF);
+    totalWeight += weight;
+  }
+
+  return totalWeight > 0 ? weightedScore / totalWeight : 0;
 }
 
 /**
- * Compute pose match percentage between normalized pose and template
+ * Compute pose match between normalized pose and template, with a
+ * per-landmark and per-limb error breakdown
  */
 export function computePoseMatch(
   normalizedPose: NormalizedPose,
   templatePose: NormalizedPose,
   keyLandmarkIndices: number[]
-): number {
-  if (keyLandmarkIndices.length === 0) return 0;
-
-  let totalError = 0;
-  let validLandmarks = 0;
+): PoseMatchResult {
+  // Compare key landmarks plus every limb joint so the breakdown is complete
+  const indices = new Set([...keyLandmarkIndices, ...Object.values(LIMBS).flat()]);
+  const landmarkMatches = new Map<number, LandmarkMatch>();
 
-  for (const idx of keyLandmarkIndices) {
+  for (const idx of indices) {
     const live = normalizedPose.landmarks[idx];
     const template = templatePose.landmarks[idx];
 
     if (live && template && live.visibility && live.visibility > 0.5) {
       const dx = live.x - template.x;
       const dy = live.y - template.y;
-      totalError += Math.sqrt(dx * dx + dy * dy);
-      validLandmarks++;
+      landmarkMatches.set(idx, { index: idx, dx, dy, error: Math.sqrt(dx * dx + dy * dy) });
+    }
+  }
+
+  const limbs: LimbMatch[] = [];
+  for (const [limb, limbIndices] of Object.entries(LIMBS) as [LimbName, number[]][]) {
+    const matches = limbIndices
+      .map((idx) => landmarkMatches.get(idx))
+      .filter((m): m is LandmarkMatch => m !== undefined);
+    if (matches.length > 0) {
+      const error = matches.reduce((sum, m) => sum + m.error, 0) / matches.length;
+      limbs.push({ limb, error, landmarks: matches });
+    }
+  }
+
+  const keyMatches = keyLandmarkIndices
+    .map((idx) => landmarkMatches.get(idx))
+    .filter((m): m is LandmarkMatch => m !== undefined);
+
+  let score = 0;
+  if (keyMatches.length > 0) {
+    const avgError = keyMatches.reduce((sum, m) => sum + m.error, 0) / keyMatches.length;
+    // Convert error to match percentage (0-1)
+    // Lower error = higher match
+    // Threshold: error < 0.1 = 100%, error > 0.5 = 0%
+    score = Math.max(0, Math.min(1, 1 - (avgError / 0.5)));
+  }
+
+  return {
+    score,
+    landmarks: Array.from(landmarkMatches.values()),
+    limbs,
+  };
+}
+
+// Limbs off by more than this (normalized units) get a corrective hint
+const CORRECTION_ERROR_THRESHOLD = 0.08;
+// Joint angle difference that counts as bent/straight rather than misplaced
+const CORRECTION_ANGLE_TOLERANCE = 20;
+// Shoulder/hip width ratio beyond which the body is turned differently
+const CORRECTION_TURN_RATIO = 1.25;
+
+/**
+ * Describe how to fix one limb, comparing the live pose to the template
+ */
+function describeLimbCorrection(
+  limb: LimbMatch,
+  livePose: NormalizedPose,
+  templatePose: NormalizedPose,
+  liveAspect: number,
+  templateAspect: number
+): PoseCorrection | null {
+  const [first, middle, last] = LIMBS[limb.limb];
+  // Angles and widths only compare across frames of different shapes with x and y in the same units
+  const live = toIsotropic(livePose.landmarks, liveAspect);
+  const target = toIsotropic(templatePose.landmarks, templateAspect);
+  const has = (idx: number) => !!live[idx] && !!target[idx];
+
+  if (limb.limb === 'shoulders' || limb.limb === 'hips') {
+    if (!has(first) || !has(middle)) return null;
+    const liveWidth = Math.abs(live[first].x - live[middle].x);
+    const targetWidth = Math.abs(target[first].x - target[middle].x);
+    if (targetWidth === 0) return null;
+
+    const ratio = liveWidth / targetWidth;
+    const part = limb.limb === 'shoulders' ? 'shoulders' : 'hips';
+    const worst = limb.landmarks.reduce((a, b) => (b.error > a.error ? b : a));
+    if (ratio > CORRECTION_TURN_RATIO) {
+      return { limb: limb.limb, message: `Turn ${part}`, landmarkIndex: worst.index };
+    }
+    if (ratio < 1 / CORRECTION_TURN_RATIO) {
+      return { limb: limb.limb, message: `Square ${part} to camera`, landmarkIndex: worst.index };
+    }
+    return null;
+  }
+
+  const side = limb.limb.startsWith('left') ? 'left' : 'right';
+  const isArm = limb.limb.endsWith('arm');
+
+  // Bent vs straight takes priority over where the limb points
+  if (has(first) && has(middle) && has(last)) {
+    const liveAngle = computeJointAngle(live[first], live[middle], live[last]);
+    const targetAngle = computeJointAngle(target[first], target[middle], target[last]);
+    if (liveAngle - targetAngle > CORRECTION_ANGLE_TOLERANCE) {
+      return { limb: limb.limb, message: isArm ? `Bend ${side} arm` : `Bend ${side} knee`, landmarkIndex: middle };
     }
+    if (targetAngle - liveAngle > CORRECTION_ANGLE_TOLERANCE) {
+      return { limb: limb.limb, message: isArm ? `Straighten ${side} arm` : `Straighten ${side} leg`, landmarkIndex: middle };
+    }
+  }
+
+  const end = limb.landmarks.find((m) => m.index === last);
+  if (!end || !has(last)) return null;
+
+  if (Math.abs(end.dy) >= Math.abs(end.dx)) {
+    // Positive dy means the live point sits lower than the template
+    const message = isArm
+      ? `${end.dy > 0 ? 'Raise' : 'Lower'} ${side} arm`
+      : `${end.dy > 0 ? 'Lift' : 'Lower'} ${side} foot`;
+    return { limb: limb.limb, message, landmarkIndex: last };
   }
 
-  if (validLandmarks === 0) return 0;
+  // Normalized x is centered on the hips, so distance from 0 is distance from the body
+  const isTooClose = Math.abs(live[last].x) < Math.abs(target[last].x);
+  const part = isArm ? 'arm' : 'foot';
+  return {
+    limb: limb.limb,
+    message: `Move ${side} ${part} ${isTooClose ? 'out' : 'in'}`,
+    landmarkIndex: last,
+  };
+}
 
-  const avgError = totalError / validLandmarks;
-  // Convert error to match percentage (0-1)
-  // Lower error = higher match
-  // Threshold: error < 0.1 = 100%, error > 0.5 = 0%
-  const match = Math.max(0, Math.min(1, 1 - (avgError / 0.5)));
-  return match;
+/**
+ * Turn a pose match breakdown into corrective hints, worst limb first.
+ * Only limbs containing a template key landmark are considered.
+ * Aspects are the width/height of the frames each pose was detected in.
+ */
+export function getPoseCorrections(
+  match: PoseMatchResult,
+  livePose: NormalizedPose,
+  templatePose: NormalizedPose,
+  keyLandmarkIndices: number[],
+  liveAspect = 1,
+  templateAspect = liveAspect
+): PoseCorrection[] {
+  return match.limbs
+    .filter((limb) =>
+      limb.error > CORRECTION_ERROR_THRESHOLD &&
+      LIMBS[limb.limb].some((idx) => keyLandmarkIndices.includes(idx))
+    )
+    .sort((a, b) => b.error - a.error)
+    .map((limb) => describeLimbCorrection(limb, livePose, templatePose, liveAspect, templateAspect))
+    .filter((correction): correction is PoseCorrection => correction !== null);
+}
+
+// Framing tolerances shared by guidance messages and auto-capture
+export const CENTER_OFFSET_TOLERANCE = 0.15;
+export const TILT_TOLERANCE_DEGREES = 5;
+export const DEVICE_TILT_TOLERANCE_DEGREES = 2;
+
+/**
+ * Check whether the subject is horizontally centered.
+ * Once off-center, they must come back past the tolerance by a margin.
+ */
+export function isCentered(centerOffset: number, wasCentered = true): boolean {
+  const tolerance = wasCentered ? CENTER_OFFSET_TOLERANCE : CENTER_OFFSET_TOLERANCE - HYSTERESIS_MARGIN;
+  return Math.abs(centerOffset) <= tolerance;
+}
+
+/**
+ * Check whether distance, centering (both ways), shoulder and phone tilt are all within tolerance,
+ * the crop cuts nothing awkwardly and, in group mode, nobody is cut off
+ */
+export function isFramingGood(guidance: PoseGuidance): boolean {
+  return (
+    guidance.distance === 'good' &&
+    guidance.centered &&
+    (!guidance.group || guidance.group.cutOff.length === 0) &&
+    guidance.cropWarnings.length === 0 &&
+    guidance.vertical.hint === 'good' &&
+    Math.abs(guidance.tilt) <= TILT_TOLERANCE_DEGREES &&
+    (guidance.deviceTilt === null || Math.abs(guidance.deviceTilt) <= DEVICE_TILT_TOLERANCE_DEGREES)
+  );
 }
 
 /**
  * Get bounding box of pose landmarks
  */
-export function getPoseBoundingBox(landmarks: Landmark[]): {
-  minX: number;
-  minY: number;
-  maxX: number;
-  maxY: number;
-  width: number;
-  height: number;
-  centerX: number;
-  centerY: number;
-} {
+export function getPoseBoundingBox(landmarks: Landmark[]): BoundingBox {
   const visibleLandmarks = landmarks.filter((lm) => lm.visibility && lm.visibility > 0.3);
   if (visibleLandmarks.length === 0) {
     return { minX: 0, minY: 0, maxX: 0, maxY: 0, width: 0, height: 0, centerX: 0, centerY: 0 };
@@ -192,75 +550,430 @@ export function getPoseBoundingBox(landmarks: Landmark[]): {
 }
 
 /**
- * Get or create cached MediaPipe landmarker instance for image analysis
+ * Combined bounding box around several people
  */
-async function getImageLandmarker(): Promise<PoseLandmarker | null> {
-  // Return cached instance if available
-  if (cachedImageLandmarker) {
-    return cachedImageLandmarker;
+export function getGroupBoundingBox(people: Landmark[][]): BoundingBox {
+  const boxes = people.map(getPoseBoundingBox).filter((box) => box.width > 0 || box.height > 0);
+  if (boxes.length === 0) {
+    return { minX: 0, minY: 0, maxX: 0, maxY: 0, width: 0, height: 0, centerX: 0, centerY: 0 };
   }
 
-  // Prevent multiple simultaneous initializations
-  if (isInitializingLandmarker) {
-    // Wait for initialization to complete
-    let attempts = 0;
-    while (isInitializingLandmarker && attempts < 50) {
-      await new Promise(resolve => setTimeout(resolve, 100));
-      attempts++;
-      if (cachedImageLandmarker) {
-        return cachedImageLandmarker;
-      }
+  const minX = Math.min(...boxes.map((box) => box.minX));
+  const maxX = Math.max(...boxes.map((box) => box.maxX));
+  const minY = Math.min(...boxes.map((box) => box.minY));
+  const maxY = Math.max(...boxes.map((box) => box.maxY));
+
+  return {
+    minX,
+    minY,
+    maxX,
+    maxY,
+    width: maxX - minX,
+    height: maxY - minY,
+    centerX: (minX + maxX) / 2,
+    centerY: (minY + maxY) / 2,
+  };
+}
+
+/**
+ * Order people by hip position so indices stay stable while nobody swaps places
+ */
+export function sortPeopleLeftToRight(people: Landmark[][]): Landmark[][] {
+  const hipCenterX = (landmarks: Landmark[]) =>
+    (landmarks[POSE_LANDMARKS.LEFT_HIP].x + landmarks[POSE_LANDMARKS.RIGHT_HIP].x) / 2;
+  return [...people].sort((a, b) => hipCenterX(a) - hipCenterX(b));
+}
+
+/**
+ * Where each person stands within the group: hip midpoint relative to the
+ * group's bounding box (0-1 on both axes), so layouts compare across framings
+ */
+export function getGroupLayout(people: Landmark[][]): { x: number; y: number }[] {
+  const bounds = getGroupBoundingBox(people);
+  return people.map((landmarks) => {
+    const leftHip = landmarks[POSE_LANDMARKS.LEFT_HIP];
+    const rightHip = landmarks[POSE_LANDMARKS.RIGHT_HIP];
+    return {
+      x: ((leftHip.x + rightHip.x) / 2 - bounds.minX) / (bounds.width || 1),
+      y: ((leftHip.y + rightHip.y) / 2 - bounds.minY) / (bounds.height || 1),
+    };
+  });
+}
+
+/**
+ * Assign detected people to the people in a multi-person template by their
+ * position in the group. Returns the template slot for each detected person,
+ * or -1 when there are more people than slots.
+ */
+export function assignPeopleToSlots(people: Landmark[][], slots: Landmark[][]): number[] {
+  const peopleLayout = getGroupLayout(people);
+  const slotLayout = getGroupLayout(slots);
+  const cost = peopleLayout.map((person) =>
+    slotLayout.map((slot) => Math.hypot(person.x - slot.x, person.y - slot.y))
+  );
+  return solveAssignment(cost);
+}
+
+// How close (0-1) a landmark may get to the frame edge before the person counts as cut off
+const EDGE_MARGIN = 0.01;
+
+/**
+ * Crop edges a person's body crosses. MediaPipe still estimates landmarks
+ * outside the frame, which end up beyond the 0-1 range.
+ */
+export function getCutOffEdges(landmarks: Landmark[], crop: Rect = FULL_FRAME): FrameEdge[] {
+  const positions = landmarks.map((lm) => videoToCrop(lm, crop));
+  const edges: FrameEdge[] = [];
+  if (positions.some((pos) => pos.x < EDGE_MARGIN)) edges.push('left');
+  if (positions.some((pos) => pos.x > 1 - EDGE_MARGIN)) edges.push('right');
+  if (positions.some((pos) => pos.y < EDGE_MARGIN)) edges.push('top');
+  if (positions.some((pos) => pos.y > 1 - EDGE_MARGIN)) edges.push('bottom');
+  return edges;
+}
+
+// Joints a crop edge shouldn't pass through ("don't crop at the joints")
+const CROP_JOINTS: { index: number; name: string }[] = [
+  { index: POSE_LANDMARKS.LEFT_ELBOW, name: 'left elbow' },
+  { index: POSE_LANDMARKS.RIGHT_ELBOW, name: 'right elbow' },
+  { index: POSE_LANDMARKS.LEFT_WRIST, name: 'left wrist' },
+  { index: POSE_LANDMARKS.RIGHT_WRIST, name: 'right wrist' },
+  { index: POSE_LANDMARKS.LEFT_KNEE, name: 'left knee' },
+  { index: POSE_LANDMARKS.RIGHT_KNEE, name: 'right knee' },
+  { index: POSE_LANDMARKS.LEFT_ANKLE, name: 'left ankle' },
+  { index: POSE_LANDMARKS.RIGHT_ANKLE, name: 'right ankle' },
+];
+
+// Hands and feet that shouldn't be cut off while the rest of the limb is in frame
+const CROP_EXTREMITIES: { anchor: number; tips: number[]; message: string }[] = [
+  {
+    anchor: POSE_LANDMARKS.LEFT_WRIST,
+    tips: [POSE_LANDMARKS.LEFT_INDEX, POSE_LANDMARKS.LEFT_PINKY, POSE_LANDMARKS.LEFT_THUMB],
+    message: 'Left hand cut off',
+  },
+  {
+    anchor: POSE_LANDMARKS.RIGHT_WRIST,
+    tips: [POSE_LANDMARKS.RIGHT_INDEX, POSE_LANDMARKS.RIGHT_PINKY, POSE_LANDMARKS.RIGHT_THUMB],
+    message: 'Right hand cut off',
+  },
+  {
+    anchor: POSE_LANDMARKS.LEFT_ANKLE,
+    tips: [POSE_LANDMARKS.LEFT_HEEL, POSE_LANDMARKS.LEFT_FOOT_INDEX],
+    message: 'Left foot cut off',
+  },
+  {
+    anchor: POSE_LANDMARKS.RIGHT_ANKLE,
+    tips: [POSE_LANDMARKS.RIGHT_HEEL, POSE_LANDMARKS.RIGHT_FOOT_INDEX],
+    message: 'Right foot cut off',
+  },
+];
+
+// How close (fraction of the crop) an edge may pass to a joint before it looks cut there
+const JOINT_EDGE_BAND = 0.03;
+
+// The top of the head sits about this many eye-to-mouth distances above the eyes
+const HEAD_TOP_RATIO = 1.5;
+
+/**
+ * Estimate the top of the head (normalized y) from the face, which MediaPipe does track
+ */
+function getHeadTopY(landmarks: Landmark[]): number {
+  const eyeY = (landmarks[POSE_LANDMARKS.LEFT_EYE].y + landmarks[POSE_LANDMARKS.RIGHT_EYE].y) / 2;
+  const mouthY = (landmarks[POSE_LANDMARKS.MOUTH_LEFT].y + landmarks[POSE_LANDMARKS.MOUTH_RIGHT].y) / 2;
+  return eyeY - (mouthY - eyeY) * HEAD_TOP_RATIO;
+}
+
+const isInsideCrop = (pos: { x: number; y: number }) => pos.x >= 0 && pos.x <= 1 && pos.y >= 0 && pos.y <= 1;
+
+/**
+ * The crop edge a position lies beyond, if any
+ */
+function getEdgeOutside(pos: { x: number; y: number }): FrameEdge | null {
+  if (pos.y > 1) return 'bottom';
+  if (pos.y < 0) return 'top';
+  if (pos.x < 0) return 'left';
+  if (pos.x > 1) return 'right';
+  return null;
+}
+
+/**
+ * Where the output crop cuts the body awkwardly: edges passing through a joint,
+ * and hands, feet or the top of the head cut off while the rest is in frame.
+ * `crop` is the output crop in normalized video coordinates.
+ */
+export function getCropWarnings(landmarks: Landmark[], crop: Rect): CropWarning[] {
+  const isVisible = (index: number) => (landmarks[index]?.visibility ?? 0) > 0.5;
+  const positionOf = (index: number) => videoToCrop(landmarks[index], crop);
+  const warnings: CropWarning[] = [];
+
+  for (const { index, name } of CROP_JOINTS) {
+    if (!isVisible(index)) continue;
+    const pos = positionOf(index);
+    const distances: [FrameEdge, number, boolean][] = [
+      ['left', pos.x, pos.y >= 0 && pos.y <= 1],
+      ['right', 1 - pos.x, pos.y >= 0 && pos.y <= 1],
+      ['top', pos.y, pos.x >= 0 && pos.x <= 1],
+      ['bottom', 1 - pos.y, pos.x >= 0 && pos.x <= 1],
+    ];
+    const cut = distances.find(([, distance, isAlongEdge]) => isAlongEdge && Math.abs(distance) < JOINT_EDGE_BAND);
+    if (cut) {
+      warnings.push({ landmarkIndex: index, edge: cut[0], position: pos, message: `Cropped at ${name}` });
     }
-    return null;
   }
 
-  try {
-    isInitializingLandmarker = true;
+  for (const { anchor, tips, message } of CROP_EXTREMITIES) {
+    if (!isVisible(anchor) || !isInsideCrop(positionOf(anchor))) continue;
+    const tip = tips.find((index) => landmarks[index] && getEdgeOutside(positionOf(index)));
+    if (tip !== undefined) {
+      const pos = positionOf(tip);
+      warnings.push({ landmarkIndex: tip, edge: getEdgeOutside(pos) ?? 'bottom', position: pos, message });
+    }
+  }
 
-    const vision = await FilesetResolver.forVisionTasks(
-      'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@latest/wasm'
-    );
+  const nose = landmarks[POSE_LANDMARKS.NOSE];
+  if (nose && isVisible(POSE_LANDMARKS.NOSE) && isInsideCrop(positionOf(POSE_LANDMARKS.NOSE))) {
+    const headTop = videoToCrop({ x: nose.x, y: getHeadTopY(landmarks) }, crop);
+    if (headTop.y < 0) {
+      warnings.push({
+        landmarkIndex: POSE_LANDMARKS.NOSE,
+        edge: 'top',
+        position: headTop,
+        message: 'Top of head cut off',
+      });
+    }
+  }
 
-    const isMobile = isMobileDevice();
-    
-    const poseLandmarker = await PoseLandmarker.createFromOptions(vision, {
-      baseOptions: {
-        modelAssetPath: `https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_lite/float16/1/pose_landmarker_lite.task`,
-        delegate: isMobile ? 'CPU' : 'GPU', // Use CPU on mobile for better stability
-      },
-      runningMode: 'IMAGE',
-      numPoses: 1,
-      minPoseDetectionConfidence: 0.5,
-      minPosePresenceConfidence: 0.5,
-      minTrackingConfidence: 0.5,
-    });
-
-    cachedImageLandmarker = poseLandmarker;
+  return warnings;
+}
+
+/**
+ * Size and position of the visible body (or group) within a crop. The position
+ * is clipped to the crop; the height isn't, so a subject overflowing it still
+ * measures as too big. For a template's reference image - which shows the
+ * intended crop - this is the framing to aim for. Null when nothing is visible.
+ */
+export function measureFraming(people: Landmark[][], crop: Rect = FULL_FRAME): FramingTarget | null {
+  const box = getGroupBoundingBox(people.map((landmarks) => landmarksToCrop(landmarks, crop)));
+  if (box.width === 0 && box.height === 0) return null;
+
+  const clamp = (value: number) => Math.max(0, Math.min(1, value));
+  const minX = clamp(box.minX);
+  const maxX = clamp(box.maxX);
+  const minY = clamp(box.minY);
+  const maxY = clamp(box.maxY);
+
+  return { subjectHeight: box.height, centerX: (minX + maxX) / 2, centerY: (minY + maxY) / 2 };
+}
+
+/**
+ * Re-express a target measured on a reference image of one aspect ratio for a
+ * crop of another, as if the whole image were fitted inside the crop. A 2:3
+ * reference aimed for in a 16:9 crop keeps the subject's height and its place
+ * relative to the image center; in a taller crop everything scales down to fit.
+ */
+export function fitFramingTarget(target: FramingTarget, imageAspect: number, cropAspect: number): FramingTarget {
+  // Work in units where the crop is cropAspect wide and 1 high
+  const image = fitRectContain(imageAspect, { x: 0, y: 0, width: cropAspect, height: 1 });
+  return {
+    subjectHeight: target.subjectHeight * image.height,
+    centerX: (image.x + target.centerX * image.width) / cropAspect,
+    centerY: image.y + target.centerY * image.height,
+  };
+}
+
+/**
+ * Horizontal offset from a template's target position, -1 (left) to 1 (right)
+ */
+export function computeTargetCenterOffset(measured: FramingTarget, target: FramingTarget): number {
+  return Math.max(-1, Math.min(1, (measured.centerX - target.centerX) * 2));
+}
+
+// How far (relative) the subject's size may stray from the template's before a distance hint shows
+const TARGET_SIZE_TOLERANCE = 0.2;
+
+/**
+ * Distance hint from the subject's size against a template's target size.
+ * Pass the previous hint to apply hysteresis.
+ */
+export function computeTargetDistanceHint(
+  measured: FramingTarget,
+  target: FramingTarget,
+  previous?: PoseGuidance['distance']
+): PoseGuidance['distance'] {
+  const ratio = measured.subjectHeight / target.subjectHeight;
+  const closeRatio = 1 + TARGET_SIZE_TOLERANCE - (previous === 'too-close' ? HYSTERESIS_MARGIN : 0);
+  const farRatio = 1 - TARGET_SIZE_TOLERANCE + (previous === 'too-far' ? HYSTERESIS_MARGIN : 0);
+
+  if (ratio > closeRatio) return 'too-close';
+  if (ratio < farRatio) return 'too-far';
+  return 'good';
+}
+
+// How far (fraction of the crop height) the subject's center may stray from the template's vertically
+const TARGET_CENTER_Y_TOLERANCE = 0.08;
+
+/**
+ * Vertical hint from the subject's position against a template's target position.
+ * Pass the previous hint to apply hysteresis.
+ */
+export function computeTargetVerticalHint(
+  measured: FramingTarget,
+  target: FramingTarget,
+  previous?: VerticalHint
+): VerticalHint {
+  const tolerance = TARGET_CENTER_Y_TOLERANCE - (previous && previous !== 'good' ? HYSTERESIS_MARGIN : 0);
+  const offset = measured.centerY - target.centerY;
+
+  // Subject moves up in the frame when the frame moves down
+  if (offset > tolerance) return 'tilt-down';
+  if (offset < -tolerance) return 'tilt-up';
+  return 'good';
+}
+
+// Used when a template doesn't say where the subject belongs
+export const DEFAULT_VERTICAL_FRAMING: VerticalFramingTargets = {
+  headroom: { min: 0.03, max: 0.2 },
+};
+
+/**
+ * Compare headroom, feet placement and eye line (fractions of the output crop)
+ * against a template's targets and say which way to move the frame.
+ * `crop` is the output crop in normalized video coordinates.
+ * Pass the previous guidance to apply hysteresis.
+ */
+export function computeVerticalFraming(
+  landmarks: Landmark[],
+  crop: { x: number; y: number; width: number; height: number },
+  targets: VerticalFramingTargets = DEFAULT_VERTICAL_FRAMING,
+  previous?: VerticalGuidance
+): VerticalGuidance {
+  const isVisible = (index: number) => (landmarks[index]?.visibility ?? 0) > 0.5;
+  const toCropY = (y: number) => (y - crop.y) / crop.height;
+
+  const headroom = isVisible(POSE_LANDMARKS.NOSE) ? toCropY(getHeadTopY(landmarks)) : null;
+  const eyeLine = isVisible(POSE_LANDMARKS.LEFT_EYE) && isVisible(POSE_LANDMARKS.RIGHT_EYE)
+    ? toCropY((landmarks[POSE_LANDMARKS.LEFT_EYE].y + landmarks[POSE_LANDMARKS.RIGHT_EYE].y) / 2)
+    : null;
+  const feet = [
+    POSE_LANDMARKS.LEFT_HEEL,
+    POSE_LANDMARKS.RIGHT_HEEL,
+    POSE_LANDMARKS.LEFT_FOOT_INDEX,
+    POSE_LANDMARKS.RIGHT_FOOT_INDEX,
+  ].filter(isVisible);
+  const footroom = feet.length > 0 ? 1 - toCropY(Math.max(...feet.map((index) => landmarks[index].y))) : null;
+
+  // Keep showing a hint until the subject is comfortably back inside the range
+  const margin = previous && previous.hint !== 'good' ? HYSTERESIS_MARGIN : 0;
+
+  // How far the subject should move down (+) or up (-) in the frame for each measurement
+  const shifts: number[] = [];
+  const checkRange = (value: number | null, range: FramingRange | undefined, sign: 1 | -1) => {
+    if (value === null || !range) return;
+    if (value < range.min + margin) shifts.push(sign * (range.min + margin - value));
+    if (value > range.max - margin) shifts.push(sign * (range.max - margin - value));
+  };
+  checkRange(headroom, targets.headroom, 1);
+  checkRange(eyeLine, targets.eyeLine, 1);
+  checkRange(footroom, targets.footroom, -1); // More room below means the subject moves up
+
+  const hint = ((): VerticalGuidance['hint'] => {
+    // Wanting both ways means the subject doesn't fit - the distance hint covers that
+    if (shifts.length === 0 || (shifts.some((shift) => shift > 0) && shifts.some((shift) => shift < 0))) {
+      return 'good';
+    }
+    // Tilting distorts full-body proportions, so move the phone when feet are in the frame
+    const movePhone = !!targets.footroom;
+    // Subject moves down in the frame when the frame moves up
+    if (shifts[0] > 0) return movePhone ? 'raise-phone' : 'tilt-up';
+    return movePhone ? 'lower-phone' : 'tilt-down';
+  })();
+
+  return { headroom, footroom, eyeLine, hint };
+}
+
+/**
+ * Horizontal offset of the group's center, -1 (left) to 1 (right)
+ */
+export function computeGroupCenterOffset(bounds: BoundingBox): number {
+  return Math.max(-1, Math.min(1, (bounds.centerX - 0.5) * 2));
+}
+
+// A group should fill most of the frame without touching its edges
+const GROUP_MAX_FILL = 0.95;
+const GROUP_MIN_HEIGHT = 0.35;
+
+/**
+ * Distance hint for a whole group, from its combined bounding box.
+ * Pass the previous hint to apply hysteresis.
+ */
+export function computeGroupDistanceHint(
+  bounds: BoundingBox,
+  previous?: PoseGuidance['distance']
+): PoseGuidance['distance'] {
+  const maxFill = previous === 'too-close' ? GROUP_MAX_FILL - HYSTERESIS_MARGIN : GROUP_MAX_FILL;
+  const minHeight = previous === 'too-far' ? GROUP_MIN_HEIGHT + HYSTERESIS_MARGIN : GROUP_MIN_HEIGHT;
+
+  if (bounds.width > maxFill || bounds.height > maxFill) return 'too-close';
+  if (bounds.height < minHeight) return 'too-far';
+  return 'good';
+}
+
+/**
+ * Average signed shoulder tilt across a group (degrees)
+ */
+export function computeGroupTilt(people: Landmark[][], aspect = 1): number {
+  if (people.length === 0) return 0;
+  return people.reduce((sum, landmarks) => sum + computeTilt(landmarks, aspect), 0) / people.length;
+}
+
+/**
+ * Get or create cached MediaPipe landmarker instance for image analysis.
+ * Callers asking for the same model while it loads wait for the same instance.
+ */
+function getImageLandmarker(config: LandmarkerConfig): Promise<PoseLandmarker> {
+  const key = `${config.model}/${config.delegate}`;
+  if (cachedImageLandmarker?.key === key) {
+    return cachedImageLandmarker.landmarker;
+  }
+
+  // Settings changed - release the old model once it's no longer loading
+  cachedImageLandmarker?.landmarker.then((landmarker) => landmarker.close(), () => {});
+
+  const landmarker = (async () => {
+    const poseLandmarker = await createPoseLandmarker('IMAGE', config);
+    // Template images may show a couple or a group
+    await poseLandmarker.setOptions({ numPoses: MAX_GROUP_SIZE });
     return poseLandmarker;
-  } catch (err) {
+  })();
+  cachedImageLandmarker = { key, landmarker };
+
+  landmarker.catch((err) => {
     console.error('Failed to initialize image landmarker:', err);
-    return null;
-  } finally {
-    isInitializingLandmarker = false;
-  }
+    // Let the next analysis try again
+    if (cachedImageLandmarker?.landmarker === landmarker) {
+      cachedImageLandmarker = null;
+    }
+  });
+  return landmarker;
 }
 
 /**
  * Analyze a static image with MediaPipe Pose Landmarker
- * Returns normalized pose landmarks and raw landmarks
+ * Returns normalized pose landmarks and raw landmarks, or null when no person is found
  * Uses cached landmarker instance for performance
+ * Throws if the pose model can't be loaded (e.g. offline before it was ever cached)
  */
-export async function analyzeImagePose(imageUrl: string): Promise<{
-  landmarks: Landmark[];
+export async function analyzeImagePose(
+  imageUrl: string,
+  config: LandmarkerConfig = DEFAULT_DETECTION_SETTINGS.image
+): Promise<{
+  landmarks: Landmark[]; // First person from the left
   normalizedPose: NormalizedPose;
+  people: TemplatePerson[]; // Everyone in the image, left to right
+  imageAspect: number; // Image width/height
 } | null> {
-  try {
-    const poseLandmarker = await getImageLandmarker();
-    if (!poseLandmarker) {
-      console.error('Failed to get landmarker instance');
-      return null;
-    }
+  const poseLandmarker = await getImageLandmarker(config);
 
+  try {
     // Load image with timeout
     const img = new Image();
     img.crossOrigin = 'anonymous';
@@ -280,18 +993,25 @@ export async function analyzeImagePose(imageUrl: string): Promise<{
     const result = poseLandmarker.detect(img);
 
     if (result.landmarks && result.landmarks.length > 0) {
-      const landmarks = result.landmarks[0].map((lm) => ({
-        x: lm.x,
-        y: lm.y,
-        z: lm.z,
-        visibility: lm.visibility,
-      }));
+      const detected = result.landmarks.map((person) =>
+        person.map((lm) => ({
+          x: lm.x,
+          y: lm.y,
+          z: lm.z,
+          visibility: lm.visibility,
+        }))
+      );
 
-      const normalizedPose = normalizePose(landmarks);
+      const people = sortPeopleLeftToRight(detected).map((landmarks) => ({
+        landmarks,
+        normalizedPose: normalizePose(landmarks),
+      }));
 
       return {
-        landmarks,
-        normalizedPose,
+        landmarks: people[0].landmarks,
+        normalizedPose: people[0].normalizedPose,
+        people,
+        imageAspect: img.naturalWidth / img.naturalHeight,
       };
     }
 
@@ -0,0 +1,155 @@
+// ImageCapture isn't in TypeScript's DOM lib yet, so describe the parts we use
+type PhotoCapabilities = {
+  imageWidth?: { max: number };
+  imageHeight?: { max: number };
+}
+
+interface ImageCaptureInstance {
+  takePhoto(settings?: { imageWidth?: number; imageHeight?: number }): Promise<Blob>;
+  grabFrame(): Promise<ImageBitmap>;
+  getPhotoCapabilities(): Promise<PhotoCapabilities>;
+}
+
+type ImageCaptureConstructor = new (track: MediaStreamTrack) => ImageCaptureInstance;
+
+export type StillCaptureMethod = 'take-photo' | 'high-res-frame' | 'video-frame';
+
+export type StillCapture = {
+  image: CanvasImageSource;
+  width: number;
+  height: number;
+  method: StillCaptureMethod;
+  release: () => void; // Free the underlying bitmap, if any
+}
+
+// How long to wait for the stream to switch resolution before giving up
+const CONSTRAINT_SWITCH_TIMEOUT = 1500;
+
+function getImageCapture(track: MediaStreamTrack): ImageCaptureInstance | null {
+  const ImageCapture = (window as unknown as { ImageCapture?: ImageCaptureConstructor }).ImageCapture;
+  if (!ImageCapture) return null;
+  try {
+    return new ImageCapture(track);
+  } catch (err) {
+    console.warn('ImageCapture unavailable for track:', err);
+    return null;
+  }
+}
+
+function fromBitmap(bitmap: ImageBitmap, method: StillCaptureMethod): StillCapture {
+  return {
+    image: bitmap,
+    width: bitmap.width,
+    height: bitmap.height,
+    method,
+    release: () => bitmap.close(),
+  };
+}
+
+function fromVideo(video: HTMLVideoElement): StillCapture {
+  return {
+    image: video,
+    width: video.videoWidth,
+    height: video.videoHeight,
+    method: 'video-frame',
+    release: () => {},
+  };
+}
+
+/**
+ * Take a full-resolution photo with ImageCapture.takePhoto()
+ */
+async function takeFullResolutionPhoto(imageCapture: ImageCaptureInstance): Promise<StillCapture> {
+  const capabilities = await imageCapture.getPhotoCapabilities();
+  const blob = await imageCapture.takePhoto({
+    imageWidth: capabilities.imageWidth?.max,
+    imageHeight: capabilities.imageHeight?.max,
+  });
+  return fromBitmap(await createImageBitmap(blob), 'take-photo');
+}
+
+/**
+ * Wait until the video element reports new dimensions after a constraint change
+ */
+function waitForResize(video: HTMLVideoElement, previousWidth: number): Promise<void> {
+  return new Promise((resolve) => {
+    const timeoutId = setTimeout(done, CONSTRAINT_SWITCH_TIMEOUT);
+    function done() {
+      clearTimeout(timeoutId);
+      video.removeEventListener('resize', onResize);
+      resolve();
+    }
+    function onResize() {
+      if (video.videoWidth !== previousWidth) done();
+    }
+    video.addEventListener('resize', onResize);
+  });
+}
+
+/**
+ * Temporarily raise the stream to the camera's maximum resolution, grab one
+ * frame, then restore the original constraints so pose detection keeps its
+ * lightweight preview stream.
+ */
+async function grabHighResolutionFrame(
+  video: HTMLVideoElement,
+  track: MediaStreamTrack,
+  imageCapture: ImageCaptureInstance | null
+): Promise<StillCapture | null> {
+  const capabilities = track.getCapabilities?.();
+  const maxWidth = capabilities?.width?.max;
+  const maxHeight = capabilities?.height?.max;
+  if (!maxWidth || !maxHeight || maxWidth <= video.videoWidth) return null;
+
+  const originalConstraints = track.getConstraints();
+  const previousWidth = video.videoWidth;
+
+  try {
+    await track.applyConstraints({
+      ...originalConstraints,
+      width: { ideal: maxWidth },
+      height: { ideal: maxHeight },
+    });
+    await waitForResize(video, previousWidth);
+
+    if (imageCapture) {
+      return fromBitmap(await imageCapture.grabFrame(), 'high-res-frame');
+    }
+    return fromBitmap(await createImageBitmap(video), 'high-res-frame');
+  } finally {
+    await track.applyConstraints(originalConstraints).catch((err) => {
+      console.error('Failed to restore preview resolution:', err);
+    });
+  }
+}
+
+/**
+ * Capture the highest-resolution still the camera offers.
+ * Falls back from takePhoto() to a temporary high-resolution stream, and
+ * finally to the current preview frame.
+ */
+export async function captureStill(video: HTMLVideoElement): Promise<StillCapture> {
+  const track = (video.srcObject as MediaStream | null)?.getVideoTracks()[0];
+  if (!track || track.readyState !== 'live') {
+    return fromVideo(video);
+  }
+
+  const imageCapture = getImageCapture(track);
+
+  if (imageCapture) {
+    try {
+      return await takeFullResolutionPhoto(imageCapture);
+    } catch (err) {
+      console.warn('takePhoto failed, trying high-resolution frame:', err);
+    }
+  }
+
+  try {
+    const frame = await grabHighResolutionFrame(video, track, imageCapture);
+    if (frame) return frame;
+  } catch (err) {
+    console.warn('High-resolution frame failed, using preview frame:', err);
+  }
+
+  return fromVideo(video);
+}
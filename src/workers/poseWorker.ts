@@ -0,0 +1,102 @@
+import { type PoseLandmarker } from '@mediapipe/tasks-vision';
+import { type Landmark } from '../types/pose';
+import { type LandmarkerConfig, loadVisionFileset, createPoseLandmarker } from '../utils/mediapipeConfig';
+
+export type PoseWorkerRequest =
+  | { type: 'init'; config: LandmarkerConfig }
+  | { type: 'configure'; numPoses: number }
+  | { type: 'detect'; frame: VideoFrame | ImageBitmap; timestamp: number };
+
+export type PoseWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'error'; message: string }
+  | { type: 'result'; people: Landmark[][]; timestamp: number; inferenceMs: number }
+  | { type: 'skipped' }; // Frame couldn't be processed - not the same as "no person"
+
+let landmarker: PoseLandmarker | null = null;
+let isConfiguring = false; // Skip frames while options are being applied
+
+function respond(message: PoseWorkerResponse) {
+  self.postMessage(message);
+}
+
+/**
+ * MediaPipe loads its WASM glue with importScripts(), which doesn't exist in
+ * module workers. Import the ES module copy written next to it by
+ * scripts/fetch-mediapipe-assets.mjs instead.
+ */
+async function importWasmModuleFactory(wasmLoaderPath: string): Promise<unknown> {
+  const loader = await import(/* @vite-ignore */ wasmLoaderPath.replace(/\.js$/, '.mjs'));
+  return loader.default;
+}
+
+async function init(config: LandmarkerConfig) {
+  try {
+    const vision = await loadVisionFileset();
+    const wasmModuleFactory = await importWasmModuleFactory(vision.wasmLoaderPath);
+
+    // No DOM in a worker - GPU work happens on an offscreen canvas
+    landmarker = await createPoseLandmarker('VIDEO', config, new OffscreenCanvas(1, 1), wasmModuleFactory);
+
+    respond({ type: 'ready' });
+  } catch (err) {
+    console.error('Failed to initialize pose landmarker in worker:', err);
+    respond({ type: 'error', message: err instanceof Error ? err.message : 'Failed to load pose detection' });
+  }
+}
+
+/**
+ * Change how many people are tracked without reloading the model
+ */
+async function configure(numPoses: number) {
+  if (!landmarker) return;
+  isConfiguring = true;
+  try {
+    await landmarker.setOptions({ numPoses });
+  } catch (err) {
+    console.error('Failed to update pose landmarker options:', err);
+  } finally {
+    isConfiguring = false;
+  }
+}
+
+function detect(frame: VideoFrame | ImageBitmap, timestamp: number) {
+  try {
+    if (!landmarker || isConfiguring) {
+      respond({ type: 'skipped' });
+      return;
+    }
+
+    const start = performance.now();
+    const result = landmarker.detectForVideo(frame, timestamp);
+    const inferenceMs = performance.now() - start;
+
+    const people = (result.landmarks ?? []).map((person) =>
+      person.map((lm) => ({
+        x: lm.x,
+        y: lm.y,
+        z: lm.z,
+        visibility: lm.visibility,
+      }))
+    );
+
+    respond({ type: 'result', people, timestamp, inferenceMs });
+  } catch (err) {
+    console.error('Pose detection error:', err);
+    respond({ type: 'skipped' });
+  } finally {
+    // Frames hold GPU/decoder memory until closed
+    frame.close();
+  }
+}
+
+self.onmessage = (event: MessageEvent<PoseWorkerRequest>) => {
+  const message = event.data;
+  if (message.type === 'init') {
+    init(message.config);
+  } else if (message.type === 'configure') {
+    configure(message.numPoses);
+  } else if (message.type === 'detect') {
+    detect(message.frame, message.timestamp);
+  }
+};
@@ -1,9 +1,48 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { VitePWA } from 'vite-plugin-pwa'
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [
+    react(),
+    VitePWA({
+      registerType: 'prompt', // Ask before swapping in a new build mid-shoot
+      manifest: {
+        name: 'RightAngle Photo',
+        short_name: 'RightAngle',
+        description: 'Pose-guided camera for consistent full-body photos',
+        start_url: '/',
+        display: 'standalone',
+        orientation: 'portrait',
+        background_color: '#000000',
+        theme_color: '#000000',
+        icons: [
+          {
+            src: '/RAPL%20ICON.png',
+            sizes: '1080x1080',
+            type: 'image/png',
+            purpose: 'any',
+          },
+        ],
+      },
+      workbox: {
+        // App shell, pose template images, the self-hosted MediaPipe runtime and the default
+        // tracking (Lite) and template analysis (Full) models
+        globPatterns: ['**/*.{js,mjs,css,html,png,svg,jpg,wasm,task}'],
+        // The ~30MB heavy model would make every install download it, so it's cached the first time it's used instead
+        globIgnores: ['**/pose_landmarker_heavy.task'],
+        maximumFileSizeToCacheInBytes: 12 * 1024 * 1024, // WASM binaries and the full model are ~9MB
+        runtimeCaching: [
+          {
+            urlPattern: /\/mediapipe\/models\/.*\.task$/,
+            handler: 'CacheFirst',
+            options: { cacheName: 'mediapipe-models' },
+          },
+        ],
+      },
+    }),
+  ],
   server: {
     host: '0.0.0.0', // Allow external connections (needed for ngrok)
     port: 5173,